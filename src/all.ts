@@ -4,6 +4,11 @@ import { join } from "node:path"
 import { processBatch as processClaudeBatch } from "./batch"
 import { processBatch as processCodexBatch } from "./codex/batch"
 import { processBatch as processOpencodeBatch } from "./opencode/batch"
+import { OUTPUT_FORMATS, parseOutputFormat, parseOutputLimits, parseThinkingLimit } from "./render"
+import { INDEX_FILENAME } from "./search-index"
+import { Redactor } from "./redact"
+import type { PricingTable } from "./pricing"
+import { loadPricing, PricingError } from "./pricing"
 
 const DEFAULT_SOURCES = {
   claude: join(process.env.HOME || "", ".claude/projects"),
@@ -15,6 +20,17 @@ async function main(): Promise<void> {
   const { values } = parseArgs({
     options: {
       output: { type: "string", short: "o" },
+      format: { type: "string" },
+      branches: { type: "boolean", default: false },
+      "compact-summaries": { type: "boolean", default: false },
+      "include-thinking": { type: "boolean", default: false },
+      "thinking-limit": { type: "string" },
+      "tool-output": { type: "boolean", default: false },
+      "tool-output-lines": { type: "string", multiple: true },
+      redact: { type: "boolean", default: false },
+      "redact-pattern": { type: "string", multiple: true },
+      "anonymize-home": { type: "boolean", default: false },
+      pricing: { type: "string" },
       force: { type: "boolean", short: "f", default: false },
       commit: { type: "boolean", short: "c", default: false },
       help: { type: "boolean", short: "h", default: false },
@@ -27,6 +43,50 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Unknown --format "${values.format}" (expected one of: ${OUTPUT_FORMATS.join(", ")})`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const outputLimits = parseOutputLimits(values["tool-output-lines"])
+  if (!outputLimits) {
+    console.error(`Invalid --tool-output-lines "${values["tool-output-lines"]}" (expected head:tail or Tool=head:tail)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const thinkingLimit = parseThinkingLimit(values["thinking-limit"])
+  if (thinkingLimit === null) {
+    console.error(`Invalid --thinking-limit "${values["thinking-limit"]}" (expected a positive number of characters)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  let pricing: PricingTable | undefined
+  try {
+    pricing = values.pricing ? await loadPricing(values.pricing) : undefined
+  }
+  catch (err) {
+    if (!(err instanceof PricingError)) throw err
+    console.error(`Invalid --pricing: ${err.message}`)
+    process.exit(1)
+  }
+
+  let redactor: Redactor | undefined
+  try {
+    redactor = Redactor.create({
+      redact: values.redact,
+      redactPatterns: values["redact-pattern"],
+      anonymizeHome: values["anonymize-home"],
+    })
+  }
+  catch (err) {
+    console.error(`Invalid --redact-pattern: ${(err as Error).message}`)
+    process.exit(1)
+  }
+
   if (!values.output) {
     console.error("Error: --output is required")
     printUsage()
@@ -35,6 +95,10 @@ async function main(): Promise<void> {
 
   const output = values.output
   const force = values.force ?? false
+  const branches = values.branches ?? false
+  const compactSummaries = values["compact-summaries"] ?? false
+  const includeThinking = values["include-thinking"] ?? false
+  const toolOutput = values["tool-output"] ?? false
 
   // Check which sources exist
   const sources: { name: string; path: string; processor: typeof processClaudeBatch }[] = []
@@ -60,7 +124,20 @@ async function main(): Promise<void> {
 
   for (const source of sources) {
     console.error(`\nProcessing ${source.name} (${source.path})...`)
-    await source.processor({ input: source.path, output, force })
+    await source.processor({
+      input: source.path,
+      output,
+      force,
+      format,
+      branches,
+      compactSummaries,
+      includeThinking,
+      thinkingLimit,
+      toolOutput,
+      outputLimits,
+      pricing,
+      redactor,
+    })
   }
 
   if (values.commit) {
@@ -88,8 +165,8 @@ async function commitChanges(dir: string): Promise<void> {
     return
   }
 
-  // Stage and commit
-  const add = spawnSync("git", ["add", "-A"], { cwd: dir })
+  // Stage and commit (the search index is a local cache, never committed)
+  const add = spawnSync("git", ["add", "-A", "--", ".", `:(exclude)${INDEX_FILENAME}*`], { cwd: dir })
   if (add.status !== 0) {
     console.error("\n--commit: git add failed")
     return
@@ -125,6 +202,17 @@ Usage:
 
 Options:
   -o, --output      Output directory (required)
+  --format          Output format: text (default), jsonl, or markdown
+  --branches        Include abandoned Claude conversation branches
+  --compact-summaries  Include Claude's context compaction summaries
+  --include-thinking  Include reasoning (Claude thinking, Codex reasoning summaries, OpenCode reasoning)
+  --thinking-limit  Truncate each thinking block to N characters
+  --tool-output     Include tool output (first 20 and last 10 lines; failures always)
+  --tool-output-lines  Lines kept as head:tail, or Tool=head:tail for one tool (repeatable)
+  --redact          Redact API keys, tokens, private keys, Authorization headers and emails
+  --redact-pattern  Also redact matches of this regular expression (repeatable)
+  --anonymize-home  Replace home directory paths with ~
+  --pricing         JSON file of per-model token rates for cost estimates
   -f, --force       Regenerate all files (default: skip if output is newer)
   -c, --commit      Commit changes to git (if output is a repo)
   -h, --help        Show this help
@@ -135,7 +223,8 @@ Sources checked:
   OpenCode:     ~/.local/share/opencode/storage
 
 Only sources that exist will be processed. Output is organized by date
-with tool suffix (-claude.txt, -codex.txt, -opencode.txt).
+with tool suffix (-claude.txt, -codex.txt, -opencode.txt; .jsonl or .md with
+--format jsonl or --format markdown).
 
 Example:
   bun run all -- --output ~/transcripts
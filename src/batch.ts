@@ -1,11 +1,26 @@
 import { readdir, stat, mkdir } from "node:fs/promises"
-import { join, dirname } from "node:path"
-import { TranscriptParser } from "./parse"
-
-export interface BatchOptions {
+import { join, dirname, relative } from "node:path"
+import { TranscriptParser, loadSubagents } from "./parse"
+import type { ParserOptions } from "./types"
+import type { OutputFormat } from "./render"
+import { createRenderer, fileExtension } from "./render"
+import type { EventOptions } from "./events"
+import { renderAll } from "./events"
+import { syncIndex } from "./search-index"
+import type { Redactor, RedactionCounts, RedactionReport } from "./redact"
+import { logRedactions } from "./redact"
+
+export interface BatchOptions extends EventOptions {
   input: string
   output: string
   force?: boolean
+  format?: OutputFormat
+  // Render abandoned conversation branches
+  branches?: boolean
+  // Include compaction summaries
+  compactSummaries?: boolean
+  // Applied to every transcript before it is written
+  redactor?: Redactor
 }
 
 export async function processBatch(options: BatchOptions): Promise<void> {
@@ -17,6 +32,7 @@ export async function processBatch(options: BatchOptions): Promise<void> {
   let processed = 0
   let skipped = 0
   let upToDate = 0
+  const redactions: RedactionReport[] = []
 
   for (const file of files) {
     const current = processed + skipped + upToDate + 1
@@ -35,7 +51,7 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     }
 
     const { folder, timestamp } = await extractDatePath(file)
-    const outPath = join(options.output, folder, `${timestamp}-claude.txt`)
+    const outPath = join(options.output, folder, `${timestamp}-claude.${fileExtension(options.format)}`)
 
     if (!options.force && await isUpToDate(file, outPath)) {
       upToDate++
@@ -43,7 +59,16 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     }
 
     await mkdir(dirname(outPath), { recursive: true })
-    await processFile(file, outPath)
+    const counts = await processFile(file, outPath, options.format, options.redactor, {
+      branches: options.branches,
+      compactSummaries: options.compactSummaries,
+      includeThinking: options.includeThinking,
+      thinkingLimit: options.thinkingLimit,
+      toolOutput: options.toolOutput,
+      outputLimits: options.outputLimits,
+      pricing: options.pricing,
+    })
+    redactions.push({ file: relative(options.output, outPath), counts })
     processed++
   }
 
@@ -51,6 +76,15 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     process.stderr.write("\r" + " ".repeat(40) + "\r")
   }
   console.error(`  Done: ${processed} processed, ${skipped} skipped (empty), ${upToDate} up-to-date`)
+  if (options.redactor) {
+    logRedactions(redactions)
+  }
+
+  // Search index covers the text transcripts only
+  if ((options.format ?? "text") === "text") {
+    const index = await syncIndex(options.output)
+    console.error(`  Index: ${index.indexed} updated, ${index.removed} removed, ${index.total} total`)
+  }
 }
 
 async function findJsonlFiles(dir: string): Promise<string[]> {
@@ -65,7 +99,8 @@ async function findJsonlFiles(dir: string): Promise<string[]> {
       if (entry.isDirectory()) {
         await walk(fullPath)
       }
-      else if (entry.name.endsWith(".jsonl") && !entry.name.includes(".bak")) {
+      // Subagent transcripts (agent-*.jsonl) are rendered inside their parent session
+      else if (entry.name.endsWith(".jsonl") && !entry.name.includes(".bak") && !entry.name.startsWith("agent-")) {
         results.push(fullPath)
       }
     }
@@ -78,26 +113,31 @@ async function findJsonlFiles(dir: string): Promise<string[]> {
 async function extractDatePath(filePath: string): Promise<{ folder: string; timestamp: string }> {
   const file = Bun.file(filePath)
   const text = await file.text()
-  const firstLine = text.split("\n")[0]
 
-  if (!firstLine) {
-    return { folder: "unknown", timestamp: "unknown" }
+  // Summary and snapshot records at the top of the file have no timestamp
+  let ts: string | undefined
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      ts = JSON.parse(line).timestamp
+    }
+    catch {
+      continue
+    }
+    if (typeof ts === "string") break
   }
 
-  try {
-    const record = JSON.parse(firstLine)
-    const ts = record.timestamp as string
-    // Extract year-month for folder: 2025-12-13T01:06:41.581Z -> 2025-12
-    const match = ts.match(/^(\d{4})-(\d{2})/)
-    const folder = match ? `${match[1]}-${match[2]}` : "unknown"
-    // Convert full timestamp to filename-safe format
-    // 2025-12-13T01:06:41.581Z -> 2025-12-13T01-06-41
-    const timestamp = ts.replace(/:/g, "-").replace(/\.\d+Z$/, "")
-    return { folder, timestamp }
-  }
-  catch {
+  if (typeof ts !== "string") {
     return { folder: "unknown", timestamp: "unknown" }
   }
+
+  // Extract year-month for folder: 2025-12-13T01:06:41.581Z -> 2025-12
+  const match = ts.match(/^(\d{4})-(\d{2})/)
+  const folder = match ? `${match[1]}-${match[2]}` : "unknown"
+  // Convert full timestamp to filename-safe format
+  // 2025-12-13T01:06:41.581Z -> 2025-12-13T01-06-41
+  const timestamp = ts.replace(/:/g, "-").replace(/\.\d+Z$/, "")
+  return { folder, timestamp }
 }
 
 async function isUpToDate(inputPath: string, outputPath: string): Promise<boolean> {
@@ -110,19 +150,28 @@ async function isUpToDate(inputPath: string, outputPath: string): Promise<boolea
   }
 }
 
-async function processFile(inputPath: string, outputPath: string): Promise<void> {
-  const parser = new TranscriptParser()
+async function processFile(
+  inputPath: string,
+  outputPath: string,
+  format?: OutputFormat,
+  redactor?: Redactor,
+  parserOptions: ParserOptions = {}
+): Promise<RedactionCounts> {
+  const renderer = createRenderer(format)
   const file = Bun.file(inputPath)
   const text = await file.text()
   const lines = text.split("\n")
+  const parser = new TranscriptParser({ ...parserOptions, subagents: await loadSubagents(inputPath, text) })
 
   let output = ""
   for (const line of lines) {
-    output += parser.parse(line)
+    output += renderAll(renderer, parser.parse(line))
   }
 
-  // Add summary footer
-  output += parser.finalize()
+  // Conversation body (once its branches are known) and summary footer
+  output += renderAll(renderer, parser.finalize())
 
-  await Bun.write(outputPath, output)
+  const counts: RedactionCounts = new Map()
+  await Bun.write(outputPath, redactor ? redactor.redact(output, counts) : output)
+  return counts
 }
@@ -1,11 +1,21 @@
 import { readdir, stat, mkdir } from "node:fs/promises"
-import { join, dirname, basename } from "node:path"
+import { join, dirname, basename, relative } from "node:path"
 import { CodexTranscriptParser } from "./parse"
-
-export interface BatchOptions {
+import type { OutputFormat } from "../render"
+import { createRenderer, fileExtension } from "../render"
+import type { EventOptions } from "../events"
+import { renderAll } from "../events"
+import { syncIndex } from "../search-index"
+import type { Redactor, RedactionCounts, RedactionReport } from "../redact"
+import { logRedactions } from "../redact"
+
+export interface BatchOptions extends EventOptions {
   input: string
   output: string
   force?: boolean
+  format?: OutputFormat
+  // Applied to every transcript before it is written
+  redactor?: Redactor
 }
 
 export async function processBatch(options: BatchOptions): Promise<void> {
@@ -17,6 +27,7 @@ export async function processBatch(options: BatchOptions): Promise<void> {
   let processed = 0
   let skipped = 0
   let upToDate = 0
+  const redactions: RedactionReport[] = []
 
   for (const file of files) {
     const current = processed + skipped + upToDate + 1
@@ -35,7 +46,7 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     }
 
     const { folder, timestamp } = deriveOutputPath(file)
-    const outPath = join(options.output, folder, `${timestamp}-codex.txt`)
+    const outPath = join(options.output, folder, `${timestamp}-codex.${fileExtension(options.format)}`)
 
     if (!options.force && await isUpToDate(file, outPath)) {
       upToDate++
@@ -43,7 +54,8 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     }
 
     await mkdir(dirname(outPath), { recursive: true })
-    await processFile(file, outPath)
+    const counts = await processFile(file, outPath, options.format, options.redactor, options)
+    redactions.push({ file: relative(options.output, outPath), counts })
     processed++
   }
 
@@ -51,6 +63,15 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     process.stderr.write("\r" + " ".repeat(40) + "\r")
   }
   console.error(`  Done: ${processed} processed, ${skipped} skipped (empty), ${upToDate} up-to-date`)
+  if (options.redactor) {
+    logRedactions(redactions)
+  }
+
+  // Search index covers the text transcripts only
+  if ((options.format ?? "text") === "text") {
+    const index = await syncIndex(options.output)
+    console.error(`  Index: ${index.indexed} updated, ${index.removed} removed, ${index.total} total`)
+  }
 }
 
 async function findJsonlFiles(dir: string): Promise<string[]> {
@@ -105,22 +126,31 @@ async function isUpToDate(inputPath: string, outputPath: string): Promise<boolea
   }
 }
 
-async function processFile(inputPath: string, outputPath: string): Promise<void> {
-  const parser = new CodexTranscriptParser()
+async function processFile(
+  inputPath: string,
+  outputPath: string,
+  format?: OutputFormat,
+  redactor?: Redactor,
+  options: EventOptions = {}
+): Promise<RedactionCounts> {
+  const parser = new CodexTranscriptParser(options)
+  const renderer = createRenderer(format)
   const file = Bun.file(inputPath)
   const text = await file.text()
   const lines = text.split("\n")
 
   let output = ""
   for (const line of lines) {
-    output += parser.parse(line)
+    output += renderAll(renderer, parser.parse(line))
   }
 
   // Add summary footer
-  output += parser.finalize()
+  output += renderAll(renderer, parser.finalize())
 
   // Only write if there's content
+  const counts: RedactionCounts = new Map()
   if (output.trim()) {
-    await Bun.write(outputPath, output)
+    await Bun.write(outputPath, redactor ? redactor.redact(output, counts) : output)
   }
+  return counts
 }
@@ -1,12 +1,29 @@
 import { parseArgs } from "node:util"
 import { CodexTranscriptParser } from "./parse"
+import type { EventOptions } from "../events"
+import { renderAll } from "../events"
+import type { RedactionCounts } from "../redact"
+import { Redactor, formatRedactionCounts } from "../redact"
+import type { PricingTable } from "../pricing"
+import { loadPricing, PricingError } from "../pricing"
 import { processBatch } from "./batch"
+import type { OutputFormat } from "../render"
+import { OUTPUT_FORMATS, parseOutputFormat, parseOutputLimits, parseThinkingLimit, createRenderer } from "../render"
 
 async function main(): Promise<void> {
   const { values, positionals } = parseArgs({
     options: {
       batch: { type: "boolean", short: "b", default: false },
       output: { type: "string", short: "o" },
+      format: { type: "string" },
+      "include-thinking": { type: "boolean", default: false },
+      "thinking-limit": { type: "string" },
+      "tool-output": { type: "boolean", default: false },
+      "tool-output-lines": { type: "string", multiple: true },
+      redact: { type: "boolean", default: false },
+      "redact-pattern": { type: "string", multiple: true },
+      "anonymize-home": { type: "boolean", default: false },
+      pricing: { type: "string" },
       help: { type: "boolean", short: "h", default: false },
     },
     allowPositionals: true,
@@ -17,6 +34,58 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Unknown --format "${values.format}" (expected one of: ${OUTPUT_FORMATS.join(", ")})`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const outputLimits = parseOutputLimits(values["tool-output-lines"])
+  if (!outputLimits) {
+    console.error(`Invalid --tool-output-lines "${values["tool-output-lines"]}" (expected head:tail or Tool=head:tail)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const thinkingLimit = parseThinkingLimit(values["thinking-limit"])
+  if (thinkingLimit === null) {
+    console.error(`Invalid --thinking-limit "${values["thinking-limit"]}" (expected a positive number of characters)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  let pricing: PricingTable | undefined
+  try {
+    pricing = values.pricing ? await loadPricing(values.pricing) : undefined
+  }
+  catch (err) {
+    if (!(err instanceof PricingError)) throw err
+    console.error(`Invalid --pricing: ${err.message}`)
+    process.exit(1)
+  }
+
+  let redactor: Redactor | undefined
+  try {
+    redactor = Redactor.create({
+      redact: values.redact,
+      redactPatterns: values["redact-pattern"],
+      anonymizeHome: values["anonymize-home"],
+    })
+  }
+  catch (err) {
+    console.error(`Invalid --redact-pattern: ${(err as Error).message}`)
+    process.exit(1)
+  }
+
+  const options: EventOptions = {
+    includeThinking: values["include-thinking"],
+    thinkingLimit,
+    toolOutput: values["tool-output"],
+    outputLimits,
+    pricing,
+  }
+
   if (values.batch) {
     if (!positionals[0] || !values.output) {
       console.error("Batch mode requires input path and --output")
@@ -27,15 +96,26 @@ async function main(): Promise<void> {
     await processBatch({
       input: positionals[0],
       output: values.output,
+      format,
+      ...options,
+      redactor,
     })
   }
   else {
-    await streamMode()
+    await streamMode(format, options, redactor)
   }
 }
 
-async function streamMode(): Promise<void> {
-  const parser = new CodexTranscriptParser()
+async function streamMode(format: OutputFormat, options: EventOptions, redactor?: Redactor): Promise<void> {
+  const parser = new CodexTranscriptParser(options)
+  const renderer = createRenderer(format)
+  const redactions: RedactionCounts = new Map()
+
+  const write = (output: string): void => {
+    if (output) {
+      process.stdout.write(redactor ? redactor.redact(output, redactions) : output)
+    }
+  }
 
   const decoder = new TextDecoder()
   let buffer = ""
@@ -47,23 +127,18 @@ async function streamMode(): Promise<void> {
     buffer = lines.pop() || ""
 
     for (const line of lines) {
-      const output = parser.parse(line)
-      if (output) {
-        process.stdout.write(output)
-      }
+      write(renderAll(renderer, parser.parse(line)))
     }
   }
 
   if (buffer.trim()) {
-    const output = parser.parse(buffer)
-    if (output) {
-      process.stdout.write(output)
-    }
+    write(renderAll(renderer, parser.parse(buffer)))
   }
 
-  const summary = parser.finalize()
-  if (summary) {
-    process.stdout.write(summary)
+  write(renderAll(renderer, parser.finalize()))
+
+  if (redactions.size > 0) {
+    console.error(`Redacted ${formatRedactionCounts(redactions)}`)
   }
 }
 
@@ -78,6 +153,15 @@ Usage:
 Options:
   -b, --batch       Enable batch mode (process directory tree)
   -o, --output      Output directory (required for batch mode)
+  --format          Output format: text (default), jsonl, or markdown
+  --include-thinking  Include reasoning summaries
+  --thinking-limit  Truncate each reasoning summary to N characters
+  --tool-output     Include tool output (first 20 and last 10 lines; failures always)
+  --tool-output-lines  Lines kept as head:tail, or Tool=head:tail for one tool (repeatable)
+  --redact          Redact API keys, tokens, private keys, Authorization headers and emails
+  --redact-pattern  Also redact matches of this regular expression (repeatable)
+  --anonymize-home  Replace home directory paths with ~
+  --pricing         JSON file of per-model token rates for cost estimates
   -h, --help        Show this help
 
 Examples:
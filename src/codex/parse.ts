@@ -4,169 +4,233 @@ import type {
   ResponseItemPayload,
   EventMsgPayload,
   TurnContextPayload,
+  TokenUsage,
   PendingFunction,
-  CodexSessionMetadata,
-  CodexSessionStats,
 } from "./types"
-import {
-  formatMetadata,
-  formatUserMessage,
-  formatAssistantText,
-  formatModelChange,
-  formatSummary,
-  EMOJI,
-} from "../format"
+import type { TranscriptEvent, FileTouch, ToolFailure, SettingName, EventOptions } from "../events"
+import { SETTING_NAMES, emptyStats, recordEvent, hasContent, thinkingEvent, toolOutput } from "../events"
+import { priceUsage } from "../pricing"
 
 export class CodexTranscriptParser {
   private pendingFunctions: Map<string, PendingFunction> = new Map()
-  private metadata: CodexSessionMetadata | null = null
-  private metadataEmitted = false
+  private started: string | null = null
   private currentModel: string | null = null
-  private stats: CodexSessionStats = {
-    userMessages: 0,
-    assistantMessages: 0,
-    functionCalls: 0,
-    functionErrors: 0,
-    filesRead: new Set(),
-    filesWritten: new Set(),
-    lastTimestamp: null,
-    model: null,
-  }
+  private currentSettings: Partial<Record<SettingName, string>> = {}
+  private currentCwd: string | null = null
+  private lastTimestamp: string | null = null
+  private stats = emptyStats()
+  // Cumulative usage at the previous token_count event
+  private tokenTotals: TokenUsage | null = null
+
+  constructor(private options: EventOptions = {}) {}
 
-  parse(line: string): string {
+  parse(line: string): TranscriptEvent[] {
     const trimmed = line.trim()
-    if (!trimmed) return ""
+    if (!trimmed) return []
 
     let record: CodexRecord
     try {
       record = JSON.parse(trimmed)
     }
     catch {
-      return ""
+      return []
     }
 
     // Track timestamp
-    this.stats.lastTimestamp = record.timestamp
+    this.lastTimestamp = record.timestamp
+    const timestamp = record.timestamp
 
-    let output = ""
+    let events: TranscriptEvent[] = []
 
     switch (record.type) {
       case "session_meta":
-        output += this.parseSessionMeta(record.payload as SessionMetaPayload)
+        events = this.parseSessionMeta(record.payload as SessionMetaPayload)
         break
       case "response_item":
-        output += this.parseResponseItem(record.payload as ResponseItemPayload)
+        events = this.parseResponseItem(record.payload as ResponseItemPayload, timestamp)
         break
       case "event_msg":
-        output += this.parseEventMsg(record.payload as EventMsgPayload)
+        events = this.parseEventMsg(record.payload as EventMsgPayload, timestamp)
         break
       case "turn_context":
-        output += this.parseTurnContext(record.payload as TurnContextPayload)
+        events = this.parseTurnContext(record.payload as TurnContextPayload, timestamp)
         break
     }
 
-    return output
+    for (const event of events) {
+      recordEvent(this.stats, event)
+    }
+    return events
   }
 
-  private parseSessionMeta(payload: SessionMetaPayload): string {
-    this.metadata = {
+  private parseSessionMeta(payload: SessionMetaPayload): TranscriptEvent[] {
+    this.started = payload.timestamp
+    this.currentCwd = payload.cwd
+
+    return [{
+      type: "session-start",
+      source: "codex",
+      timestamp: payload.timestamp,
       sessionId: payload.id,
       project: payload.cwd,
-      started: payload.timestamp,
-      cliVersion: payload.cli_version,
-      modelProvider: payload.model_provider,
+      version: payload.cli_version,
+      provider: payload.model_provider,
       gitBranch: payload.git?.branch,
-    }
-
-    // Emit metadata immediately
-    this.metadataEmitted = true
-    return formatCodexMetadata(this.metadata) + "\n"
+    }]
   }
 
-  private parseResponseItem(payload: ResponseItemPayload): string {
+  private parseResponseItem(payload: ResponseItemPayload, timestamp: string): TranscriptEvent[] {
     switch (payload.type) {
       case "message":
-        return this.parseMessage(payload)
+        return this.parseMessage(payload, timestamp)
       case "function_call":
         return this.parseFunctionCall(payload)
+      case "custom_tool_call":
+        return this.parseCustomToolCall(payload)
+      case "local_shell_call":
+        return this.parseLocalShellCall(payload)
       case "function_call_output":
-        return this.parseFunctionCallOutput(payload)
+      case "custom_tool_call_output":
+        return this.parseFunctionCallOutput(payload, timestamp)
+      case "web_search_call":
+        return this.parseWebSearchCall(payload, timestamp)
       case "reasoning":
-        // Skip reasoning blocks (encrypted content)
-        return ""
+        return this.parseReasoning(payload, timestamp)
     }
-    return ""
+    return []
   }
 
-  private parseMessage(payload: ResponseItemPayload): string {
-    if (!payload.content) return ""
+  private parseMessage(payload: ResponseItemPayload, timestamp: string): TranscriptEvent[] {
+    if (!payload.content) return []
 
-    let output = ""
+    // Skip user messages from response_item - they're duplicated from event_msg
+    if (payload.role !== "assistant") return []
 
-    if (payload.role === "user") {
-      // Skip user messages from response_item - they're duplicated from event_msg
-      return ""
-    }
-    else if (payload.role === "assistant") {
-      for (const block of payload.content) {
-        if (block.type === "output_text") {
-          output += formatAssistantText(block.text)
-          this.stats.assistantMessages++
+    const events: TranscriptEvent[] = []
+    for (const block of payload.content) {
+      if (block.type === "output_text") {
+        const text = block.text.trim()
+        if (text) {
+          events.push({ type: "assistant-text", timestamp, text })
         }
       }
     }
+    return events
+  }
+
+  // The reasoning itself is encrypted; only its summary is readable
+  private parseReasoning(payload: ResponseItemPayload, timestamp: string): TranscriptEvent[] {
+    const summary = (payload.summary ?? [])
+      .filter(block => block.type === "summary_text")
+      .map(block => block.text)
+      .join("\n\n")
+    const thinking = thinkingEvent(summary, timestamp, this.options)
+    return thinking ? [thinking] : []
+  }
+
+  private parseFunctionCall(payload: ResponseItemPayload): TranscriptEvent[] {
+    if (!payload.name || !payload.call_id) return []
+
+    const input = parseArguments(payload.arguments || "{}")
+    // Older versions run patches through the shell: ["apply_patch", "<patch>"]
+    const command = input.command
+    if (payload.name === "shell" && Array.isArray(command) && command[0] === "apply_patch" && typeof command[1] === "string") {
+      this.pendingFunctions.set(payload.call_id, { name: "apply_patch", input: { input: command[1] } })
+      return []
+    }
+
+    this.pendingFunctions.set(payload.call_id, { name: payload.name, input })
 
-    return output
+    return []
   }
 
-  private parseFunctionCall(payload: ResponseItemPayload): string {
-    if (!payload.name || !payload.call_id) return ""
+  // Free-form tools (apply_patch) take raw text rather than JSON arguments
+  private parseCustomToolCall(payload: ResponseItemPayload): TranscriptEvent[] {
+    if (!payload.name || !payload.call_id) return []
 
     this.pendingFunctions.set(payload.call_id, {
       name: payload.name,
-      arguments: payload.arguments || "{}",
+      input: { input: payload.input ?? "" },
     })
 
-    return ""
+    return []
   }
 
-  private parseFunctionCallOutput(payload: ResponseItemPayload): string {
-    if (!payload.call_id) return ""
+  // Recorded like the shell function; its output is a function_call_output
+  private parseLocalShellCall(payload: ResponseItemPayload): TranscriptEvent[] {
+    if (!payload.call_id || !payload.action?.command) return []
+
+    this.pendingFunctions.set(payload.call_id, {
+      name: "shell",
+      input: {
+        command: payload.action.command,
+        workdir: payload.action.working_directory,
+        timeout_ms: payload.action.timeout_ms,
+      },
+    })
+
+    return []
+  }
+
+  // Searches run on the server, so there is no output item to wait for
+  private parseWebSearchCall(payload: ResponseItemPayload, timestamp: string): TranscriptEvent[] {
+    return [{
+      type: "tool-call",
+      timestamp,
+      name: "web_search",
+      input: { query: payload.action?.query ?? "" },
+      success: payload.status !== "failed",
+    }]
+  }
+
+  private parseFunctionCallOutput(payload: ResponseItemPayload, timestamp: string): TranscriptEvent[] {
+    if (!payload.call_id) return []
 
     const pending = this.pendingFunctions.get(payload.call_id)
-    if (!pending) return ""
+    if (!pending) return []
 
     this.pendingFunctions.delete(payload.call_id)
-    this.stats.functionCalls++
 
-    // Check for errors
-    const isError = (payload.output?.includes('"exit_code":') &&
-      !payload.output?.includes('"exit_code":0')) ?? false
+    const result = parseToolResult(payload.output ?? "")
+    const input = pending.input
+
+    return [{
+      type: "tool-call",
+      timestamp,
+      name: pending.name,
+      input,
+      success: !result.failure,
+      failure: result.failure,
+      files: fileTouches(pending.name, input),
+      output: toolOutput(pending.name, result.text, !result.failure, this.options),
+    }]
+  }
 
-    if (isError) {
-      this.stats.functionErrors++
+  // Calls still waiting for output when the user interrupted never get any
+  private parseTurnAborted(timestamp: string): TranscriptEvent[] {
+    const events: TranscriptEvent[] = []
+    for (const pending of this.pendingFunctions.values()) {
+      events.push({
+        type: "tool-call",
+        timestamp,
+        name: pending.name,
+        input: pending.input,
+        success: false,
+        failure: "aborted",
+      })
     }
+    this.pendingFunctions.clear()
+    return events
+  }
 
-    // Track file operations
-    try {
-      const args = JSON.parse(pending.arguments)
-      if (pending.name === "shell" && args.command) {
-        const cmd = Array.isArray(args.command) ? args.command.join(" ") : args.command
-        // Track read operations (cat, less, head, etc.)
-        const readMatch = cmd.match(/(?:cat|less|head|tail|bat)\s+["']?([^"'\s|>]+)/)
-        if (readMatch) {
-          this.stats.filesRead.add(readMatch[1])
-        }
-      }
+  private parseEventMsg(payload: EventMsgPayload, timestamp: string): TranscriptEvent[] {
+    if (payload.type === "token_count") {
+      return this.parseTokenCount(payload, timestamp)
     }
-    catch {
-      // Ignore parse errors
+    if (payload.type === "turn_aborted") {
+      return this.parseTurnAborted(timestamp)
     }
 
-    return formatFunctionCall(pending, isError)
-  }
-
-  private parseEventMsg(payload: EventMsgPayload): string {
     // User messages in event_msg are the actual user input
     if (payload.type === "user_message" && payload.message) {
       // Clean up the message - remove file context blocks
@@ -178,133 +242,211 @@ export class CodexTranscriptParser {
       text = text.trim()
 
       if (text) {
-        this.stats.userMessages++
-        return formatUserMessage(text)
+        return [{ type: "user-message", timestamp, text }]
       }
     }
 
-    return ""
+    return []
+  }
+
+  // token_count events repeat the running total, so usage is the difference
+  // from the previous one; last_token_usage is only used without a total
+  private parseTokenCount(payload: EventMsgPayload, timestamp: string): TranscriptEvent[] {
+    const total = payload.info?.total_token_usage
+    let usage = payload.info?.last_token_usage
+    if (total) {
+      usage = this.tokenTotals ? subtractUsage(total, this.tokenTotals) : total
+      this.tokenTotals = total
+    }
+    if (!usage || usage.total_tokens <= 0) return []
+
+    // Same shape as Claude: input excludes cache reads
+    const cached = usage.cached_input_tokens || 0
+    return [priceUsage({
+      type: "usage",
+      timestamp,
+      inputTokens: Math.max(0, (usage.input_tokens || 0) - cached),
+      outputTokens: usage.output_tokens || 0,
+      cacheReadTokens: cached,
+      cacheCreationTokens: 0,
+      reasoningTokens: usage.reasoning_output_tokens || 0,
+      model: this.currentModel ?? undefined,
+    }, this.options.pricing)]
   }
 
-  private parseTurnContext(payload: TurnContextPayload): string {
+  // Every turn starts with a turn_context record; only changes are emitted,
+  // but each turn's settings count toward the summary
+  private parseTurnContext(payload: TurnContextPayload, timestamp: string): TranscriptEvent[] {
+    const events: TranscriptEvent[] = []
+
     // Track model changes
     if (payload.model && payload.model !== this.currentModel) {
       this.currentModel = payload.model
-      this.stats.model = payload.model
-      return formatModelChange(payload.model)
+      events.push({ type: "model-change", timestamp, model: payload.model })
     }
-    return ""
-  }
 
-  finalize(): string {
-    if (this.stats.userMessages === 0 && this.stats.assistantMessages === 0) {
-      return ""
+    const settings: Record<SettingName, string | null | undefined> = {
+      approval: payload.approval_policy,
+      sandbox: payload.sandbox_policy?.mode,
+      effort: payload.effort,
+    }
+    const changed: Partial<Record<SettingName, string>> = {}
+    for (const name of SETTING_NAMES) {
+      const value = settings[name]
+      if (!value) continue
+      const turns = this.stats.turnSettings.get(name) ?? new Map<string, number>()
+      turns.set(value, (turns.get(value) ?? 0) + 1)
+      this.stats.turnSettings.set(name, turns)
+      if (value !== this.currentSettings[name]) {
+        this.currentSettings[name] = value
+        changed[name] = value
+      }
     }
 
-    return formatCodexSummary(this.stats, this.metadata?.started || null)
+    // The session's own cwd is already in the header
+    const cwd = payload.cwd && payload.cwd !== this.currentCwd ? payload.cwd : undefined
+    if (cwd) this.currentCwd = cwd
+
+    if (Object.keys(changed).length > 0 || cwd) {
+      events.push({ type: "settings-change", timestamp, settings: changed, cwd })
+    }
+    return events
   }
-}
 
-function formatCodexMetadata(meta: CodexSessionMetadata): string {
-  const lines = [
-    `${EMOJI.metadata} Session: ${meta.sessionId}`,
-    `${EMOJI.metadata} Project: ${meta.project}`,
-    `${EMOJI.metadata} Started: ${meta.started}`,
-    `${EMOJI.metadata} CLI: codex ${meta.cliVersion}`,
-    `${EMOJI.metadata} Provider: ${meta.modelProvider}`,
-  ]
-  if (meta.gitBranch) {
-    lines.push(`${EMOJI.metadata} Branch: ${meta.gitBranch}`)
+  finalize(): TranscriptEvent[] {
+    if (!hasContent(this.stats)) return []
+
+    return [{
+      type: "session-end",
+      source: "codex",
+      timestamp: this.lastTimestamp,
+      started: this.started,
+      stats: this.stats,
+      model: this.currentModel ?? undefined,
+    }]
   }
-  return lines.join("\n") + "\n"
 }
 
-function formatFunctionCall(func: PendingFunction, isError: boolean): string {
-  const emoji = isError ? EMOJI.toolFailure : EMOJI.toolSuccess
-  const params = formatFunctionArgs(func.name, func.arguments)
-  return `${emoji} ${func.name}: ${params}\n`
+function subtractUsage(total: TokenUsage, previous: TokenUsage): TokenUsage {
+  return {
+    input_tokens: total.input_tokens - previous.input_tokens,
+    cached_input_tokens: (total.cached_input_tokens || 0) - (previous.cached_input_tokens || 0),
+    output_tokens: total.output_tokens - previous.output_tokens,
+    reasoning_output_tokens: (total.reasoning_output_tokens || 0) - (previous.reasoning_output_tokens || 0),
+    total_tokens: total.total_tokens - previous.total_tokens,
+  }
 }
 
-function formatFunctionArgs(name: string, argsJson: string): string {
+function parseArguments(argsJson: string): Record<string, unknown> {
   try {
     const args = JSON.parse(argsJson)
-
-    switch (name) {
-      case "shell": {
-        const cmd = Array.isArray(args.command) ? args.command.join(" ") : args.command
-        const truncated = cmd.length > 200 ? cmd.slice(0, 200) + "..." : cmd
-        return truncated.replace(/\n/g, " ")
-      }
-      case "read_file":
-        return `file="${args.path}"`
-      case "write_file":
-        return `file="${args.path}"`
-      case "update_plan":
-        if (args.plan && Array.isArray(args.plan)) {
-          const summary = args.plan.map((s: { step: string; status: string }) =>
-            `${s.status}: ${s.step}`).join("; ")
-          return summary.length > 150 ? summary.slice(0, 150) + "..." : summary
-        }
-        return JSON.stringify(args)
-      default:
-        return JSON.stringify(args).slice(0, 150)
+    if (args && typeof args === "object" && !Array.isArray(args)) {
+      return args as Record<string, unknown>
     }
   }
   catch {
-    return argsJson.slice(0, 150)
+    // Fall through to raw arguments
   }
+  return { arguments: argsJson }
 }
 
-function formatCodexSummary(stats: CodexSessionStats, startTime: string | null): string {
-  const lines = [
-    "",
-    `${EMOJI.metadata} --- Summary ---`,
-  ]
-
-  // Duration
-  if (startTime && stats.lastTimestamp) {
-    const duration = formatDuration(startTime, stats.lastTimestamp)
-    if (duration) {
-      lines.push(`${EMOJI.metadata} Duration: ${duration}`)
-    }
-  }
+interface ToolResult {
+  text: string
+  failure?: ToolFailure
+}
 
-  if (stats.model) {
-    lines.push(`${EMOJI.metadata} Model: ${stats.model}`)
-  }
+// Results arrive as {"output": ..., "metadata": {"exit_code": ...}} JSON or,
+// in newer versions, as "Exit code: N\nWall time: ...\nOutput:\n..." text.
+// Anything else is plain tool output.
+function parseToolResult(output: string): ToolResult {
+  let text = output
+  let exitCode: number | undefined
 
-  lines.push(`${EMOJI.metadata} Messages: ${stats.userMessages} user, ${stats.assistantMessages} assistant`)
-  lines.push(`${EMOJI.metadata} Function calls: ${stats.functionCalls} total, ${stats.functionErrors} failed`)
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(output)
+  }
+  catch {
+    // Not JSON
+  }
 
-  const filesRead = stats.filesRead.size
-  const filesWritten = stats.filesWritten.size
-  if (filesRead > 0 || filesWritten > 0) {
-    const parts: string[] = []
-    if (filesRead > 0) parts.push(`${filesRead} read`)
-    if (filesWritten > 0) parts.push(`${filesWritten} written`)
-    lines.push(`${EMOJI.metadata} Files: ${parts.join(", ")}`)
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    const result = parsed as { output?: unknown; metadata?: { exit_code?: unknown } }
+    if (typeof result.output === "string") text = result.output
+    if (typeof result.metadata?.exit_code === "number") exitCode = result.metadata.exit_code
+  }
+  else {
+    const header = output.match(/^Exit code: (-?\d+)\n(?:Wall time: .*\n)?(?:Total output lines: .*\n)?Output:\n?/)
+    if (header) {
+      exitCode = parseInt(header[1])
+      text = output.slice(header[0].length)
+    }
   }
 
-  return lines.join("\n") + "\n"
+  return { text, failure: classifyFailure(text, exitCode) }
 }
 
-function formatDuration(start: string, end: string): string | null {
-  const startDate = new Date(start)
-  const endDate = new Date(end)
-  const ms = endDate.getTime() - startDate.getTime()
+// Codex states why a command didn't run at the start of its output; a
+// command that exited 0 succeeded whatever it printed
+function classifyFailure(text: string, exitCode: number | undefined): ToolFailure | undefined {
+  if (exitCode === 0) return undefined
 
-  if (ms < 0 || isNaN(ms)) return null
+  const head = text.trimStart().slice(0, 200)
+  if (/^aborted\b/i.test(head)) return "aborted"
+  if (/rejected by user|denied by user|failed in sandbox|sandbox denied/i.test(head)) return "denied"
+  if (/^command timed out|timed out after \d+/i.test(head)) return "timeout"
+  return exitCode !== undefined ? "exit" : undefined
+}
 
-  const seconds = Math.floor(ms / 1000)
-  const minutes = Math.floor(seconds / 60)
-  const hours = Math.floor(minutes / 60)
+function fileTouches(name: string, args: Record<string, unknown>): FileTouch[] | undefined {
+  if (name === "apply_patch" && typeof args.input === "string") {
+    return patchTouches(args.input)
+  }
+  if (name !== "shell" || !args.command) return undefined
 
-  if (hours > 0) {
-    const remainingMinutes = minutes % 60
-    return `${hours}h ${remainingMinutes}m`
+  const cmd = Array.isArray(args.command) ? args.command.join(" ") : String(args.command)
+  // Track read operations (cat, less, head, etc.)
+  const readMatch = cmd.match(/(?:cat|less|head|tail|bat)\s+["']?([^"'\s|>]+)/)
+  if (readMatch) {
+    return [{ path: readMatch[1], operation: "read" }]
   }
-  if (minutes > 0) {
-    return `${minutes}m`
+  return undefined
+}
+
+// Files changed by an apply_patch patch:
+//
+//   *** Begin Patch
+//   *** Add File: src/new.ts
+//   +content
+//   *** Update File: src/app.ts
+//   *** Move to: src/main.ts
+//   @@ context
+//   -old
+//   +new
+//   *** Delete File: src/old.ts
+//   *** End Patch
+function patchTouches(patch: string): FileTouch[] {
+  const touches: FileTouch[] = []
+  let current: FileTouch | null = null
+
+  for (const line of patch.split("\n")) {
+    const header = line.match(/^\*\*\* (Add|Update|Delete) File: (.+)$/)
+    if (header) {
+      const operation = header[1] === "Add" ? "write" : header[1] === "Update" ? "edit" : "delete"
+      current = { path: header[2].trim(), operation }
+      touches.push(current)
+      continue
+    }
+    const move = line.match(/^\*\*\* Move to: (.+)$/)
+    if (move && current) {
+      current.path = move[1].trim()
+      continue
+    }
+    if (!current || current.operation === "delete" || line.startsWith("***")) continue
+
+    if (line.startsWith("+")) current.added = (current.added ?? 0) + 1
+    else if (line.startsWith("-")) current.removed = (current.removed ?? 0) + 1
   }
-  return `${seconds}s`
+
+  return touches
 }
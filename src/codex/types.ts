@@ -21,29 +21,69 @@ export interface SessionMetaPayload {
 }
 
 export interface ResponseItemPayload {
-  type: "message" | "function_call" | "function_call_output" | "reasoning"
+  type:
+    | "message"
+    | "function_call"
+    | "function_call_output"
+    | "custom_tool_call"
+    | "custom_tool_call_output"
+    | "local_shell_call"
+    | "web_search_call"
+    | "reasoning"
   role?: "user" | "assistant"
   content?: ContentBlock[]
   name?: string
+  // function_call: JSON arguments
   arguments?: string
+  // custom_tool_call: free-form input, such as an apply_patch patch
+  input?: string
   call_id?: string
   output?: string
+  status?: string
+  // local_shell_call and web_search_call
+  action?: {
+    type: string
+    command?: string[]
+    working_directory?: string
+    timeout_ms?: number
+    query?: string
+  }
   summary?: SummaryBlock[]
 }
 
 export interface EventMsgPayload {
-  type: "user_message" | "token_count" | "agent_reasoning"
+  type: "user_message" | "token_count" | "agent_reasoning" | "turn_aborted"
   message?: string
+  // turn_aborted: "interrupted", "replaced"
+  reason?: string
   text?: string
   images?: unknown[]
+  // token_count only; null when the event carries just rate limits
+  info?: {
+    total_token_usage?: TokenUsage
+    last_token_usage?: TokenUsage
+  } | null
+}
+
+// input_tokens includes cached_input_tokens, output_tokens includes
+// reasoning_output_tokens
+export interface TokenUsage {
+  input_tokens: number
+  cached_input_tokens?: number
+  output_tokens: number
+  reasoning_output_tokens?: number
+  total_tokens: number
 }
 
 export interface TurnContextPayload {
   cwd: string
+  // "untrusted", "on-failure", "on-request", "never"
   approval_policy: string
+  // "read-only", "workspace-write", "danger-full-access"
   sandbox_policy: { mode: string }
   model: string
-  effort: string
+  // Absent for models without reasoning
+  effort?: string | null
   summary: string
 }
 
@@ -59,25 +99,5 @@ export interface SummaryBlock {
 
 export interface PendingFunction {
   name: string
-  arguments: string
-}
-
-export interface CodexSessionMetadata {
-  sessionId: string
-  project: string
-  started: string
-  cliVersion: string
-  modelProvider: string
-  gitBranch?: string
-}
-
-export interface CodexSessionStats {
-  userMessages: number
-  assistantMessages: number
-  functionCalls: number
-  functionErrors: number
-  filesRead: Set<string>
-  filesWritten: Set<string>
-  lastTimestamp: string | null
-  model: string | null
+  input: Record<string, unknown>
 }
@@ -0,0 +1,360 @@
+import type { PricingTable } from "./pricing"
+
+export type TranscriptSource = "claude" | "codex" | "opencode"
+
+export type TranscriptEvent =
+  | SessionStartEvent
+  | UserMessageEvent
+  | AssistantTextEvent
+  | ThinkingEvent
+  | ToolCallEvent
+  | ModelChangeEvent
+  | SettingsChangeEvent
+  | UsageEvent
+  | NoticeEvent
+  | BranchEvent
+  | CompactionEvent
+  | SessionEndEvent
+
+export interface SessionStartEvent {
+  type: "session-start"
+  source: TranscriptSource
+  timestamp: string
+  sessionId: string
+  project: string
+  version?: string
+  provider?: string
+  gitBranch?: string
+  title?: string
+}
+
+export interface UserMessageEvent {
+  type: "user-message"
+  timestamp: string | null
+  text: string
+  // A later text block of the same message (Claude), not counted again
+  continued?: boolean
+}
+
+export interface AssistantTextEvent {
+  type: "assistant-text"
+  timestamp: string | null
+  text: string
+  continued?: boolean
+}
+
+// The model's reasoning before it answered (opt-in, see ThinkingOptions)
+export interface ThinkingEvent {
+  type: "thinking"
+  timestamp: string | null
+  text: string
+}
+
+export interface ToolCallEvent {
+  type: "tool-call"
+  timestamp: string | null
+  name: string
+  input: Record<string, unknown>
+  success: boolean
+  // Why the call failed, where the source tells (Codex)
+  failure?: ToolFailure
+  // Source-provided one-line description (OpenCode tool titles)
+  description?: string
+  files?: FileTouch[]
+  // What the tool printed, truncated (opt-in, see ToolOutputOptions)
+  output?: string
+  // Conversation of the subagent this call delegated to (Claude Task)
+  subagent?: Subagent
+}
+
+// Non-zero exit, timed out, blocked by the sandbox or an approval prompt,
+// or cut off when the user interrupted the turn
+export type ToolFailure = "exit" | "timeout" | "denied" | "aborted"
+
+export interface Subagent {
+  agentId?: string
+  events: TranscriptEvent[]
+  stats: TranscriptStats
+  started: string | null
+  ended: string | null
+}
+
+export interface FileTouch {
+  path: string
+  operation: "read" | "write" | "edit" | "delete"
+  // Lines added and removed, where the source shows the change (patches)
+  added?: number
+  removed?: number
+}
+
+export interface ModelChangeEvent {
+  type: "model-change"
+  timestamp: string | null
+  model: string
+}
+
+// Codex turn settings: approval policy, sandbox mode and reasoning effort
+export const SETTING_NAMES = ["approval", "sandbox", "effort"] as const
+
+export type SettingName = typeof SETTING_NAMES[number]
+
+// Settings that changed since the previous turn (all of them at the first)
+export interface SettingsChangeEvent {
+  type: "settings-change"
+  timestamp: string | null
+  settings: Partial<Record<SettingName, string>>
+  // Working directory, when it moved away from the previous one
+  cwd?: string
+}
+
+export interface UsageEvent {
+  type: "usage"
+  timestamp: string | null
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  // Part of outputTokens spent on reasoning, where the source reports it
+  reasoningTokens?: number
+  // Model that used the tokens, for per-model cost
+  model?: string
+  cost?: number
+  // Cost comes from the pricing table rather than the source
+  estimated?: boolean
+}
+
+export interface NoticeEvent {
+  type: "notice"
+  timestamp: string | null
+  text: string
+}
+
+// A conversation path the session left behind: the user rewound, edited a
+// prompt or retried, and continued from an earlier message
+export interface BranchEvent {
+  type: "branch"
+  timestamp: string | null
+  events: TranscriptEvent[]
+}
+
+// The assistant's context was summarized and replaced
+export interface CompactionEvent {
+  type: "compaction"
+  timestamp: string | null
+  trigger?: "auto" | "manual"
+  // Context size when compaction started
+  preTokens?: number
+  summary?: string
+}
+
+export interface SessionEndEvent {
+  type: "session-end"
+  source: TranscriptSource
+  timestamp: string | null
+  started: string | null
+  stats: TranscriptStats
+  // Model of the last turn, which the Codex summary names
+  model?: string
+}
+
+export interface TranscriptStats {
+  userMessages: number
+  assistantMessages: number
+  toolCalls: number
+  toolErrors: number
+  // Failed calls by reason, for sources that report one
+  toolFailures: Map<ToolFailure, number>
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  reasoningTokens: number
+  cost: number
+  // Cost split by model id
+  modelCosts: Map<string, number>
+  // Some of the cost is a pricing table estimate
+  costEstimated: boolean
+  subagents: number
+  abandonedBranches: number
+  // Turns run with each setting value (Codex)
+  turnSettings: Map<SettingName, Map<string, number>>
+  filesRead: Set<string>
+  filesWritten: Set<string>
+  filesEdited: Set<string>
+  filesDeleted: Set<string>
+}
+
+// Reasoning is dropped unless requested: it is long and rarely read, but
+// sometimes needed to audit why the agent made a decision
+export interface ThinkingOptions {
+  includeThinking?: boolean
+  // Keep only the first N characters of each thinking block
+  thinkingLimit?: number
+}
+
+// Tool output is dropped unless requested. A failed call keeps its output
+// even when its tool's limit hides output, since that's where the error is.
+export interface ToolOutputOptions {
+  toolOutput?: boolean
+  // Lines kept from the start and end of each output, by tool name
+  // (case-insensitive); "*" applies to tools without their own limit
+  outputLimits?: Record<string, OutputLimit>
+}
+
+export interface OutputLimit {
+  head: number
+  tail: number
+}
+
+export const DEFAULT_OUTPUT_LIMIT: OutputLimit = { head: 20, tail: 10 }
+
+// Everything a parser can be asked to include beyond the conversation
+export interface EventOptions extends ThinkingOptions, ToolOutputOptions {
+  // Rates for estimating cost where the source doesn't report it
+  pricing?: PricingTable
+}
+
+export interface Renderer {
+  render(event: TranscriptEvent): string
+}
+
+export function emptyStats(): TranscriptStats {
+  return {
+    userMessages: 0,
+    assistantMessages: 0,
+    toolCalls: 0,
+    toolErrors: 0,
+    toolFailures: new Map(),
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    reasoningTokens: 0,
+    cost: 0,
+    modelCosts: new Map(),
+    costEstimated: false,
+    subagents: 0,
+    abandonedBranches: 0,
+    turnSettings: new Map(),
+    filesRead: new Set(),
+    filesWritten: new Set(),
+    filesEdited: new Set(),
+    filesDeleted: new Set(),
+  }
+}
+
+export function recordEvent(stats: TranscriptStats, event: TranscriptEvent): void {
+  switch (event.type) {
+    case "user-message":
+      if (!event.continued) stats.userMessages++
+      break
+    case "assistant-text":
+      if (!event.continued) stats.assistantMessages++
+      break
+    case "tool-call":
+      stats.toolCalls++
+      if (!event.success) {
+        stats.toolErrors++
+        if (event.failure) {
+          stats.toolFailures.set(event.failure, (stats.toolFailures.get(event.failure) ?? 0) + 1)
+        }
+      }
+      else {
+        for (const file of event.files ?? []) {
+          if (file.operation === "read") stats.filesRead.add(file.path)
+          else if (file.operation === "write") stats.filesWritten.add(file.path)
+          else if (file.operation === "edit") stats.filesEdited.add(file.path)
+          else stats.filesDeleted.add(file.path)
+        }
+      }
+      if (event.subagent) {
+        mergeSubagentStats(stats, event.subagent.stats)
+      }
+      break
+    case "usage":
+      stats.inputTokens += event.inputTokens
+      stats.outputTokens += event.outputTokens
+      stats.cacheReadTokens += event.cacheReadTokens
+      stats.cacheCreationTokens += event.cacheCreationTokens
+      stats.reasoningTokens += event.reasoningTokens ?? 0
+      stats.cost += event.cost ?? 0
+      if (event.cost && event.model) {
+        stats.modelCosts.set(event.model, (stats.modelCosts.get(event.model) ?? 0) + event.cost)
+      }
+      if (event.cost && event.estimated) {
+        stats.costEstimated = true
+      }
+      break
+  }
+}
+
+// Delegated work counts toward the parent session, except for messages:
+// the subagent's prompt and replies aren't part of the user's conversation
+function mergeSubagentStats(stats: TranscriptStats, sub: TranscriptStats): void {
+  stats.subagents += sub.subagents + 1
+  stats.toolCalls += sub.toolCalls
+  stats.toolErrors += sub.toolErrors
+  for (const [failure, count] of sub.toolFailures) {
+    stats.toolFailures.set(failure, (stats.toolFailures.get(failure) ?? 0) + count)
+  }
+  stats.inputTokens += sub.inputTokens
+  stats.outputTokens += sub.outputTokens
+  stats.cacheReadTokens += sub.cacheReadTokens
+  stats.cacheCreationTokens += sub.cacheCreationTokens
+  stats.reasoningTokens += sub.reasoningTokens
+  stats.cost += sub.cost
+  for (const [model, cost] of sub.modelCosts) {
+    stats.modelCosts.set(model, (stats.modelCosts.get(model) ?? 0) + cost)
+  }
+  stats.costEstimated ||= sub.costEstimated
+  for (const path of sub.filesRead) stats.filesRead.add(path)
+  for (const path of sub.filesWritten) stats.filesWritten.add(path)
+  for (const path of sub.filesEdited) stats.filesEdited.add(path)
+  for (const path of sub.filesDeleted) stats.filesDeleted.add(path)
+}
+
+// Null when thinking is off or the block is empty
+export function thinkingEvent(text: string, timestamp: string | null, options: ThinkingOptions): ThinkingEvent | null {
+  if (!options.includeThinking) return null
+  let trimmed = text.trim()
+  if (!trimmed) return null
+  if (options.thinkingLimit && trimmed.length > options.thinkingLimit) {
+    trimmed = trimmed.slice(0, options.thinkingLimit).trimEnd() + "..."
+  }
+  return { type: "thinking", timestamp, text: trimmed }
+}
+
+// Undefined when output is off or empty
+export function toolOutput(name: string, output: string, success: boolean, options: ToolOutputOptions): string | undefined {
+  if (!options.toolOutput) return undefined
+  const lines = output.replace(/\r\n/g, "\n").replace(/\s+$/, "").split("\n")
+  if (lines.length === 1 && !lines[0].trim()) return undefined
+
+  const limits = options.outputLimits ?? {}
+  const key = Object.keys(limits).find(k => k !== "*" && k.toLowerCase() === name.toLowerCase())
+  let limit = (key ? limits[key] : limits["*"]) ?? DEFAULT_OUTPUT_LIMIT
+  if (!success && limit.head + limit.tail === 0) {
+    limit = DEFAULT_OUTPUT_LIMIT
+  }
+  if (limit.head + limit.tail === 0) return undefined
+
+  if (lines.length <= limit.head + limit.tail) return lines.join("\n")
+  const omitted = lines.length - limit.head - limit.tail
+  return [
+    ...lines.slice(0, limit.head),
+    `... ${omitted} ${omitted === 1 ? "line" : "lines"} omitted ...`,
+    ...lines.slice(lines.length - limit.tail),
+  ].join("\n")
+}
+
+export function hasContent(stats: TranscriptStats): boolean {
+  return stats.userMessages > 0 || stats.assistantMessages > 0
+}
+
+export function renderAll(renderer: Renderer, events: TranscriptEvent[]): string {
+  let output = ""
+  for (const event of events) {
+    output += renderer.render(event)
+  }
+  return output
+}
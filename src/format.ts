@@ -1,26 +1,93 @@
-import type { PendingTool, SessionMetadata, SessionStats } from "./types"
+import type {
+  TranscriptEvent,
+  FileTouch,
+  ToolFailure,
+  TranscriptStats,
+  TranscriptSource,
+  SessionStartEvent,
+  SessionEndEvent,
+  ToolCallEvent,
+  Subagent,
+  BranchEvent,
+  CompactionEvent,
+  SettingsChangeEvent,
+  Renderer,
+} from "./events"
+import { SETTING_NAMES, renderAll } from "./events"
 
 export const EMOJI = {
   metadata: "📋",
   user: "👤",
   assistant: "🤖",
+  thinking: "💭",
   toolPending: "🔧",
   toolSuccess: "✅",
   toolFailure: "❌",
+  toolTimeout: "⏰",
+  toolDenied: "🚫",
+  toolAborted: "⛔",
+  toolOutput: "│",
   queue: "⏳",
 } as const
 
-export function formatMetadata(meta: SessionMetadata): string {
-  const lines = [
-    `${EMOJI.metadata} Session: ${meta.sessionId}`,
-    `${EMOJI.metadata} Project: ${meta.project}`,
-    `${EMOJI.metadata} Started: ${meta.started}`,
-    `${EMOJI.metadata} Version: ${meta.version}`,
+export class TextRenderer implements Renderer {
+  render(event: TranscriptEvent): string {
+    switch (event.type) {
+      case "session-start":
+        return formatMetadata(event) + "\n"
+      case "user-message":
+        return formatUserMessage(event.text)
+      case "assistant-text":
+        return formatAssistantText(event.text)
+      case "thinking":
+        return formatThinking(event.text)
+      case "tool-call":
+        return formatToolCall(event) +
+          (event.output ? formatToolOutput(event.output) : "") +
+          (event.subagent ? formatSubagent(event.subagent) : "")
+      case "model-change":
+        return formatModelChange(event.model)
+      case "settings-change":
+        return formatSettingsChange(event)
+      case "notice":
+        return formatNotice(event.text)
+      case "branch":
+        return formatBranch(event)
+      case "compaction":
+        return formatCompaction(event)
+      case "session-end":
+        return formatSummary(event)
+      case "usage":
+        // Token usage only surfaces in the summary
+        return ""
+    }
+  }
+}
+
+export function formatMetadata(meta: SessionStartEvent): string {
+  const lines = metadataFields(meta).map(([label, value]) => `${EMOJI.metadata} ${label}: ${value}`)
+  return lines.join("\n") + "\n"
+}
+
+export function metadataFields(meta: SessionStartEvent): [string, string][] {
+  const fields: [string, string][] = [
+    ["Session", meta.sessionId],
+    ["Project", meta.project],
+    ["Started", meta.timestamp],
   ]
+  if (meta.version) {
+    fields.push(meta.source === "codex" ? ["CLI", `codex ${meta.version}`] : ["Version", meta.version])
+  }
+  if (meta.provider) {
+    fields.push(["Provider", meta.provider])
+  }
   if (meta.gitBranch) {
-    lines.push(`${EMOJI.metadata} Branch: ${meta.gitBranch}`)
+    fields.push(["Branch", meta.gitBranch])
   }
-  return lines.join("\n") + "\n"
+  if (meta.title) {
+    fields.push(["Title", meta.title])
+  }
+  return fields
 }
 
 export function formatUserMessage(content: string): string {
@@ -35,28 +102,107 @@ export function formatAssistantText(text: string): string {
   return `${EMOJI.assistant} ${trimmed}\n`
 }
 
-export function formatToolCall(
-  tool: PendingTool,
-  isError: boolean
-): string {
-  const emoji = isError ? EMOJI.toolFailure : EMOJI.toolSuccess
-  const params = formatToolInput(tool.name, tool.input)
+export function formatThinking(text: string): string {
+  const trimmed = text.trim()
+  if (!trimmed) return ""
+  return `${EMOJI.thinking} ${trimmed}\n`
+}
+
+export function formatToolCall(tool: ToolCallEvent): string {
+  const emoji = toolEmoji(tool.success, tool.failure)
+  const params = tool.description !== undefined
+    ? truncate(tool.description, 100)
+    : formatToolParams(tool)
   return `${emoji} ${tool.name}: ${params}\n`
 }
 
-export function formatQueueOperation(content: string): string {
-  // Extract summary from queue operation content
-  const summaryMatch = content.match(/<summary>([^<]+)<\/summary>/)
-  const summary = summaryMatch ? summaryMatch[1] : content.slice(0, 100)
-  return `${EMOJI.queue} ${summary.trim()}\n`
+export function toolEmoji(success: boolean, failure?: ToolFailure): string {
+  if (success) return EMOJI.toolSuccess
+  switch (failure) {
+    case "timeout":
+      return EMOJI.toolTimeout
+    case "denied":
+      return EMOJI.toolDenied
+    case "aborted":
+      return EMOJI.toolAborted
+    default:
+      return EMOJI.toolFailure
+  }
 }
 
-function formatToolInput(
+// Patches show the files they changed rather than the patch text
+export function formatToolParams(tool: ToolCallEvent): string {
+  if (tool.name === "apply_patch" && tool.files?.length) {
+    return formatPatchFiles(tool.files)
+  }
+  return formatToolInput(tool.name, tool.input)
+}
+
+// "A src/new.ts (+10), M src/app.ts (+3 -1), D src/old.ts"
+export function formatPatchFiles(files: FileTouch[]): string {
+  const letters = { read: "R", write: "A", edit: "M", delete: "D" }
+  return files.map(file => {
+    const counts = [file.added ? `+${file.added}` : "", file.removed ? `-${file.removed}` : ""].filter(Boolean)
+    return `${letters[file.operation]} ${file.path}${counts.length > 0 ? ` (${counts.join(" ")})` : ""}`
+  }).join(", ")
+}
+
+// Output lines are marked so they can't be mistaken for transcript entries
+export function formatToolOutput(output: string): string {
+  return output.split("\n").map(line => `  ${EMOJI.toolOutput} ${line}`.trimEnd()).join("\n") + "\n"
+}
+
+// A subagent's conversation, indented under the Task call that started it
+export function formatSubagent(subagent: Subagent): string {
+  const body = renderAll(new TextRenderer(), subagent.events) +
+    `${EMOJI.metadata} Subagent: ${subagentSummary(subagent)}\n`
+  return body.replace(/^(?=.)/gm, "  ")
+}
+
+export function formatCompaction(compaction: CompactionEvent): string {
+  const line = `${EMOJI.metadata} ${compactionLabel(compaction)}\n`
+  if (!compaction.summary) return line
+  return line + compaction.summary.replace(/^(?=.)/gm, "  ") + "\n"
+}
+
+export function compactionLabel(compaction: CompactionEvent): string {
+  const details: string[] = []
+  if (compaction.trigger) details.push(compaction.trigger)
+  if (compaction.preTokens) details.push(`${formatTokens(compaction.preTokens)} tokens`)
+  return details.length > 0 ? `Context compacted (${details.join(", ")})` : "Context compacted"
+}
+
+// An abandoned conversation path, indented under a marker line
+export function formatBranch(branch: BranchEvent): string {
+  const body = renderAll(new TextRenderer(), branch.events).replace(/^(?=.)/gm, "  ")
+  return `${EMOJI.metadata} Abandoned branch:\n${body}`
+}
+
+export function subagentSummary(subagent: Subagent): string {
+  const { stats } = subagent
+  const calls = `${stats.toolCalls} tool ${stats.toolCalls === 1 ? "call" : "calls"}`
+  const parts = [stats.toolErrors > 0 ? `${calls} (${stats.toolErrors} failed)` : calls]
+  if (stats.inputTokens > 0 || stats.outputTokens > 0) {
+    parts.push(`${formatTokens(stats.inputTokens)} in, ${formatTokens(stats.outputTokens)} out tokens`)
+  }
+  const duration = subagent.started && subagent.ended ? formatDuration(subagent.started, subagent.ended) : null
+  if (duration) {
+    parts.push(duration)
+  }
+  return parts.join(", ")
+}
+
+export function formatNotice(text: string): string {
+  return `${EMOJI.queue} ${text.trim()}\n`
+}
+
+export function formatToolInput(
   toolName: string,
   input: Record<string, unknown>
 ): string {
   switch (toolName) {
     case "Bash":
+    case "shell":
       return formatBashInput(input)
     case "Read":
       return `file="${input.file_path}"`
@@ -73,26 +219,45 @@ function formatToolInput(
     case "WebFetch":
       return `url="${input.url}"`
     case "WebSearch":
+    case "web_search":
       return `query="${input.query}"`
     case "TodoWrite":
       return formatTodoInput(input)
+    case "read_file":
+    case "write_file":
+      return `file="${input.path}"`
+    case "update_plan":
+      return formatPlanInput(input)
     default:
-      return JSON.stringify(input)
+      return truncate(JSON.stringify(input), 150)
   }
 }
 
+export function commandText(input: Record<string, unknown>): string {
+  // Codex passes argv arrays, Claude passes a single string
+  const cmd = input.command
+  return Array.isArray(cmd) ? cmd.join(" ") : String(cmd || "")
+}
+
 function formatBashInput(input: Record<string, unknown>): string {
-  const cmd = String(input.command || "")
-  const truncated = cmd.length > 200 ? cmd.slice(0, 200) + "..." : cmd
   // Collapse newlines for readability
-  return truncated.replace(/\n/g, " ↵ ")
+  return truncate(commandText(input), 200).replace(/\n/g, " ↵ ")
 }
 
 function formatTodoInput(input: Record<string, unknown>): string {
   const todos = input.todos as Array<{ content: string; status: string }> | undefined
   if (!todos || !Array.isArray(todos)) return JSON.stringify(input)
-  const summary = todos.map((t) => `${t.status}: ${t.content}`).join("; ")
-  return summary.length > 150 ? summary.slice(0, 150) + "..." : summary
+  return truncate(todos.map((t) => `${t.status}: ${t.content}`).join("; "), 150)
+}
+
+function formatPlanInput(input: Record<string, unknown>): string {
+  const plan = input.plan as Array<{ step: string; status: string }> | undefined
+  if (!plan || !Array.isArray(plan)) return JSON.stringify(input)
+  return truncate(plan.map((s) => `${s.status}: ${s.step}`).join("; "), 150)
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + "..." : text
 }
 
 export function formatModelChange(model: string): string {
@@ -103,7 +268,7 @@ export function formatModelChange(model: string): string {
   return `${EMOJI.metadata} Model: ${short}\n`
 }
 
-function shortenModelName(model: string): string {
+export function shortenModelName(model: string): string {
   if (model === "<synthetic>") return "synthetic"
 
   const match = model.match(/claude-(\w+)-(\d+)-(\d+)-\d+/)
@@ -114,45 +279,153 @@ function shortenModelName(model: string): string {
   return model
 }
 
-export function formatSummary(stats: SessionStats, startTime: string | null): string {
+export function formatSettingsChange(change: SettingsChangeEvent): string {
+  let output = ""
+  const settings = settingsText(change.settings)
+  if (settings) output += `${EMOJI.metadata} Settings: ${settings}\n`
+  if (change.cwd) output += `${EMOJI.metadata} Directory: ${change.cwd}\n`
+  return output
+}
+
+// "approval never, sandbox danger-full-access, effort high"
+export function settingsText(settings: SettingsChangeEvent["settings"]): string {
+  return SETTING_NAMES
+    .filter(name => settings[name])
+    .map(name => `${name} ${settings[name]}`)
+    .join(", ")
+}
+
+export function formatSummary(end: SessionEndEvent): string {
   const lines = [
     "",
     `${EMOJI.metadata} --- Summary ---`,
+    ...summaryFields(end).map(([label, value]) => `${EMOJI.metadata} ${label}: ${value}`),
   ]
+  return lines.join("\n") + "\n"
+}
+
+// Each source keeps the summary lines it has always had: Codex names the
+// model and says "Function calls", Claude always reports tokens, and
+// OpenCode lists tokens and cost ahead of files, without cache
+export function summaryFields(end: SessionEndEvent): [string, string][] {
+  const { stats, source } = end
+  const fields: [string, string][] = []
 
   // Duration
-  if (startTime && stats.lastTimestamp) {
-    const duration = formatDuration(startTime, stats.lastTimestamp)
+  if (end.started && end.timestamp) {
+    const duration = formatDuration(end.started, end.timestamp)
     if (duration) {
-      lines.push(`${EMOJI.metadata} Duration: ${duration}`)
+      fields.push(["Duration", duration])
     }
   }
 
-  lines.push(`${EMOJI.metadata} Messages: ${stats.userMessages} user, ${stats.assistantMessages} assistant`)
-  lines.push(`${EMOJI.metadata} Tool calls: ${stats.toolCalls} total, ${stats.toolErrors} failed`)
+  if (source === "codex" && end.model) {
+    fields.push(["Model", end.model])
+  }
+
+  fields.push(["Messages", `${stats.userMessages} user, ${stats.assistantMessages} assistant`])
+  fields.push([
+    source === "codex" ? "Function calls" : "Tool calls",
+    `${stats.toolCalls} total, ${stats.toolErrors} failed${failureBreakdown(stats)}`,
+  ])
+
+  if (stats.subagents > 0) {
+    fields.push(["Subagents", `${stats.subagents}`])
+  }
+
+  if (stats.abandonedBranches > 0) {
+    fields.push(["Branches", `${stats.abandonedBranches + 1} (${stats.abandonedBranches} abandoned)`])
+  }
+
+  if (source === "opencode") {
+    fields.push(...tokenFields(stats, source), ...fileFields(stats))
+  }
+  else {
+    fields.push(...fileFields(stats), ...tokenFields(stats, source))
+  }
+
+  if (stats.turnSettings.size > 0) {
+    fields.push(["Settings", dominantSettings(stats)])
+  }
+
+  return fields
+}
 
-  // Files
+function fileFields(stats: TranscriptStats): [string, string][] {
   const filesRead = stats.filesRead.size
   const filesWritten = stats.filesWritten.size
   const filesEdited = stats.filesEdited.size
-  if (filesRead > 0 || filesWritten > 0 || filesEdited > 0) {
-    const parts: string[] = []
-    if (filesRead > 0) parts.push(`${filesRead} read`)
-    if (filesWritten > 0) parts.push(`${filesWritten} written`)
-    if (filesEdited > 0) parts.push(`${filesEdited} edited`)
-    lines.push(`${EMOJI.metadata} Files: ${parts.join(", ")}`)
+  const filesDeleted = stats.filesDeleted.size
+  if (filesRead === 0 && filesWritten === 0 && filesEdited === 0 && filesDeleted === 0) return []
+
+  const parts: string[] = []
+  if (filesRead > 0) parts.push(`${filesRead} read`)
+  if (filesWritten > 0) parts.push(`${filesWritten} written`)
+  if (filesEdited > 0) parts.push(`${filesEdited} edited`)
+  if (filesDeleted > 0) parts.push(`${filesDeleted} deleted`)
+  return [["Files", parts.join(", ")]]
+}
+
+function tokenFields(stats: TranscriptStats, source: TranscriptSource): [string, string][] {
+  const fields: [string, string][] = []
+
+  if (source === "claude" || stats.inputTokens > 0 || stats.outputTokens > 0) {
+    const reasoning = stats.reasoningTokens > 0 ? ` (${formatTokens(stats.reasoningTokens)} reasoning)` : ""
+    fields.push(["Tokens", `${formatTokens(stats.inputTokens)} in, ${formatTokens(stats.outputTokens)} out${reasoning}`])
   }
 
-  lines.push(`${EMOJI.metadata} Tokens: ${formatTokens(stats.inputTokens)} in, ${formatTokens(stats.outputTokens)} out`)
+  if (source !== "opencode" && (stats.cacheReadTokens > 0 || stats.cacheCreationTokens > 0)) {
+    fields.push(["Cache", `${formatTokens(stats.cacheReadTokens)} read, ${formatTokens(stats.cacheCreationTokens)} created`])
+  }
 
-  if (stats.cacheReadTokens > 0 || stats.cacheCreationTokens > 0) {
-    lines.push(`${EMOJI.metadata} Cache: ${formatTokens(stats.cacheReadTokens)} read, ${formatTokens(stats.cacheCreationTokens)} created`)
+  if (stats.cost > 0) {
+    fields.push(["Cost", formatCost(stats)])
   }
 
-  return lines.join("\n") + "\n"
+  return fields
+}
+
+const FAILURE_LABELS: Record<ToolFailure, string> = {
+  exit: "non-zero exit",
+  timeout: "timed out",
+  denied: "denied",
+  aborted: "aborted",
+}
+
+// " (1 non-zero exit, 2 timed out)", only when some failure wasn't an exit code
+function failureBreakdown(stats: TranscriptStats): string {
+  const failures = [...stats.toolFailures]
+  if (failures.every(([failure]) => failure === "exit")) return ""
+  return ` (${failures.map(([failure, count]) => `${count} ${FAILURE_LABELS[failure]}`).join(", ")})`
+}
+
+// "$1.2345", "~$1.2345" when estimated, with a per-model split when the
+// session used more than one priced model
+function formatCost(stats: TranscriptStats): string {
+  const total = `${stats.costEstimated ? "~" : ""}$${stats.cost.toFixed(4)}`
+  if (stats.modelCosts.size < 2) return total
+  const models = [...stats.modelCosts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([model, cost]) => `${shortenModelName(model)} $${cost.toFixed(4)}`)
+  return `${total} (${models.join(", ")})`
+}
+
+// The value each setting had for the most turns, with its share when the
+// session changed it: "approval never, sandbox workspace-write (3 of 4 turns)"
+function dominantSettings(stats: TranscriptStats): string {
+  const parts: string[] = []
+  for (const name of SETTING_NAMES) {
+    const values = stats.turnSettings.get(name)
+    if (!values) continue
+    const [value, count] = [...values].sort((a, b) => b[1] - a[1])[0]
+    let turns = 0
+    for (const n of values.values()) turns += n
+    parts.push(`${name} ${value}${count < turns ? ` (${count} of ${turns} turns)` : ""}`)
+  }
+  return parts.join(", ")
 }
 
-function formatDuration(start: string, end: string): string | null {
+export function formatDuration(start: string, end: string): string | null {
   const startDate = new Date(start)
   const endDate = new Date(end)
   const ms = endDate.getTime() - startDate.getTime()
@@ -173,7 +446,7 @@ function formatDuration(start: string, end: string): string | null {
   return `${seconds}s`
 }
 
-function formatTokens(n: number): string {
+export function formatTokens(n: number): string {
   if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`
   if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`
   return String(n)
@@ -1,12 +1,32 @@
 import { parseArgs } from "node:util"
 import { TranscriptParser } from "./parse"
+import type { ParserOptions } from "./types"
+import { renderAll } from "./events"
+import type { RedactionCounts } from "./redact"
+import { Redactor, formatRedactionCounts } from "./redact"
+import type { PricingTable } from "./pricing"
+import { loadPricing, PricingError } from "./pricing"
 import { processBatch } from "./batch"
+import type { OutputFormat } from "./render"
+import { OUTPUT_FORMATS, parseOutputFormat, parseOutputLimits, parseThinkingLimit, createRenderer } from "./render"
 
 async function main(): Promise<void> {
   const { values, positionals } = parseArgs({
     options: {
       batch: { type: "boolean", short: "b", default: false },
       output: { type: "string", short: "o" },
+      format: { type: "string" },
+      branches: { type: "boolean", default: false },
+      follow: { type: "boolean", short: "f", default: false },
+      "compact-summaries": { type: "boolean", default: false },
+      "include-thinking": { type: "boolean", default: false },
+      "thinking-limit": { type: "string" },
+      "tool-output": { type: "boolean", default: false },
+      "tool-output-lines": { type: "string", multiple: true },
+      redact: { type: "boolean", default: false },
+      "redact-pattern": { type: "string", multiple: true },
+      "anonymize-home": { type: "boolean", default: false },
+      pricing: { type: "string" },
       help: { type: "boolean", short: "h", default: false },
     },
     allowPositionals: true,
@@ -17,6 +37,67 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Unknown --format "${values.format}" (expected one of: ${OUTPUT_FORMATS.join(", ")})`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const outputLimits = parseOutputLimits(values["tool-output-lines"])
+  if (!outputLimits) {
+    console.error(`Invalid --tool-output-lines "${values["tool-output-lines"]}" (expected head:tail or Tool=head:tail)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const thinkingLimit = parseThinkingLimit(values["thinking-limit"])
+  if (thinkingLimit === null) {
+    console.error(`Invalid --thinking-limit "${values["thinking-limit"]}" (expected a positive number of characters)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  let pricing: PricingTable | undefined
+  try {
+    pricing = values.pricing ? await loadPricing(values.pricing) : undefined
+  }
+  catch (err) {
+    if (!(err instanceof PricingError)) throw err
+    console.error(`Invalid --pricing: ${err.message}`)
+    process.exit(1)
+  }
+
+  let redactor: Redactor | undefined
+  try {
+    redactor = Redactor.create({
+      redact: values.redact,
+      redactPatterns: values["redact-pattern"],
+      anonymizeHome: values["anonymize-home"],
+    })
+  }
+  catch (err) {
+    console.error(`Invalid --redact-pattern: ${(err as Error).message}`)
+    process.exit(1)
+  }
+
+  const parserOptions: ParserOptions = {
+    branches: values.branches,
+    compactSummaries: values["compact-summaries"],
+    includeThinking: values["include-thinking"],
+    thinkingLimit,
+    toolOutput: values["tool-output"],
+    outputLimits,
+    pricing,
+  }
+
+  if (values.follow && (values.batch || values.branches || values["compact-summaries"])) {
+    // Both need records that arrive after the events they belong to
+    console.error("--follow can't be combined with --batch, --branches or --compact-summaries")
+    printUsage()
+    process.exit(1)
+  }
+
   if (values.batch) {
     if (!positionals[0] || !values.output) {
       console.error("Batch mode requires input path and --output")
@@ -27,15 +108,26 @@ async function main(): Promise<void> {
     await processBatch({
       input: positionals[0],
       output: values.output,
+      format,
+      ...parserOptions,
+      redactor,
     })
   }
   else {
-    await streamMode()
+    await streamMode(format, { ...parserOptions, follow: values.follow }, redactor)
   }
 }
 
-async function streamMode(): Promise<void> {
-  const parser = new TranscriptParser()
+async function streamMode(format: OutputFormat, options: ParserOptions, redactor?: Redactor): Promise<void> {
+  const parser = new TranscriptParser(options)
+  const renderer = createRenderer(format)
+  const redactions: RedactionCounts = new Map()
+
+  const write = (output: string): void => {
+    if (output) {
+      process.stdout.write(redactor ? redactor.redact(output, redactions) : output)
+    }
+  }
 
   // Read from stdin
   const decoder = new TextDecoder()
@@ -49,25 +141,20 @@ async function streamMode(): Promise<void> {
     buffer = lines.pop() || ""
 
     for (const line of lines) {
-      const output = parser.parse(line)
-      if (output) {
-        process.stdout.write(output)
-      }
+      write(renderAll(renderer, parser.parse(line)))
     }
   }
 
   // Process any remaining buffer
   if (buffer.trim()) {
-    const output = parser.parse(buffer)
-    if (output) {
-      process.stdout.write(output)
-    }
+    write(renderAll(renderer, parser.parse(buffer)))
   }
 
-  // Emit summary footer
-  const summary = parser.finalize()
-  if (summary) {
-    process.stdout.write(summary)
+  // The conversation is emitted once its branches are known, then the summary
+  write(renderAll(renderer, parser.finalize()))
+
+  if (redactions.size > 0) {
+    console.error(`Redacted ${formatRedactionCounts(redactions)}`)
   }
 }
 
@@ -82,12 +169,28 @@ Usage:
 Options:
   -b, --batch       Enable batch mode (process directory tree)
   -o, --output      Output directory (required for batch mode)
+  --format          Output format: text (default), jsonl, or markdown
+  --branches        Include abandoned conversation branches (rewinds, edited prompts)
+  --compact-summaries  Include the summary written when the context is compacted
+  -f, --follow      Stream mode: print each record as it arrives (for live sessions);
+                    abandoned branches are not removed
+  --include-thinking  Include Claude's thinking blocks
+  --thinking-limit  Truncate each thinking block to N characters
+  --tool-output     Include tool output (first 20 and last 10 lines; failures always)
+  --tool-output-lines  Lines kept as head:tail, or Tool=head:tail for one tool (repeatable)
+  --redact          Redact API keys, tokens, private keys, Authorization headers and emails
+  --redact-pattern  Also redact matches of this regular expression (repeatable)
+  --anonymize-home  Replace home directory paths with ~
+  --pricing         JSON file of per-model token rates for cost estimates
   -h, --help        Show this help
 
 Examples:
   # Convert a single session
   cat ~/.claude/projects/-Users-me-github/abc123.jsonl | bun run claude > session.txt
 
+  # Watch a session that is still running
+  tail -f -n +1 ~/.claude/projects/-Users-me-github/abc123.jsonl | bun run claude -- --follow
+
   # Process all sessions
   bun run claude -- --batch ~/.claude/projects --output ~/transcripts
 `)
@@ -0,0 +1,39 @@
+import type { TranscriptEvent, TranscriptStats, Renderer } from "./events"
+
+export class JsonlRenderer implements Renderer {
+  render(event: TranscriptEvent): string {
+    return JSON.stringify(serializeEvent(event)) + "\n"
+  }
+}
+
+function serializeEvent(event: TranscriptEvent): unknown {
+  if (event.type === "session-end") {
+    return { ...event, stats: serializeStats(event.stats) }
+  }
+  if (event.type === "branch") {
+    return { ...event, events: event.events.map(serializeEvent) }
+  }
+  if (event.type === "tool-call" && event.subagent) {
+    // Subagent conversations nest inside the call that started them
+    const { subagent } = event
+    return {
+      ...event,
+      subagent: { ...subagent, events: subagent.events.map(serializeEvent), stats: serializeStats(subagent.stats) },
+    }
+  }
+  return event
+}
+
+function serializeStats(stats: TranscriptStats): Record<string, unknown> {
+  // Sets don't survive JSON.stringify, emit sorted path lists instead
+  return {
+    ...stats,
+    filesRead: [...stats.filesRead].sort(),
+    filesWritten: [...stats.filesWritten].sort(),
+    filesEdited: [...stats.filesEdited].sort(),
+    filesDeleted: [...stats.filesDeleted].sort(),
+    modelCosts: Object.fromEntries(stats.modelCosts),
+    toolFailures: Object.fromEntries(stats.toolFailures),
+    turnSettings: Object.fromEntries([...stats.turnSettings].map(([name, values]) => [name, Object.fromEntries(values)])),
+  }
+}
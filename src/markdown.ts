@@ -0,0 +1,131 @@
+import type { TranscriptEvent, ToolCallEvent, Subagent, Renderer } from "./events"
+import { renderAll } from "./events"
+import {
+  EMOJI,
+  metadataFields,
+  summaryFields,
+  formatToolParams,
+  toolEmoji,
+  commandText,
+  shortenModelName,
+  settingsText,
+  subagentSummary,
+  compactionLabel,
+} from "./format"
+
+const SHELL_TOOLS = new Set(["Bash", "shell", "bash"])
+
+export class MarkdownRenderer implements Renderer {
+  private turn = 0
+  private inUserTurn = false
+
+  // Subagent conversations render without turn headings
+  constructor(private nested = false) {}
+
+  render(event: TranscriptEvent): string {
+    // Consecutive user messages belong to the same turn
+    const startsTurn = event.type === "user-message" && !this.inUserTurn && !this.nested
+    this.inUserTurn = event.type === "user-message"
+
+    switch (event.type) {
+      case "session-start": {
+        const heading = event.title || `Session ${event.sessionId}`
+        const fields: [string, string][] = [["Source", event.source], ...metadataFields(event)]
+        return `# ${heading}\n\n${formatTable(fields)}\n`
+      }
+      case "user-message": {
+        let output = ""
+        if (startsTurn) {
+          this.turn++
+          output += `## Turn ${this.turn}\n\n`
+        }
+        return output + blockquote(event.text) + "\n\n"
+      }
+      case "assistant-text":
+        if (!event.text.includes("\n")) {
+          return `${event.text}\n\n`
+        }
+        return fence(event.text, "markdown") + "\n\n"
+      case "thinking":
+        return `<details>\n<summary>${EMOJI.thinking} Thinking</summary>\n\n${fence(event.text, "markdown")}\n\n</details>\n\n`
+      case "tool-call":
+        return formatToolCall(event) +
+          (event.output ? formatToolOutput(event) : "") +
+          (event.subagent ? formatSubagent(event.subagent) : "")
+      case "model-change":
+        return `_Model: ${shortenModelName(event.model)}_\n\n`
+      case "settings-change": {
+        const settings = settingsText(event.settings)
+        return (settings ? `_Settings: ${settings}_\n\n` : "") +
+          (event.cwd ? `_Directory: \`${event.cwd}\`_\n\n` : "")
+      }
+      case "notice":
+        return `_${EMOJI.queue} ${event.text}_\n\n`
+      case "compaction": {
+        const marker = `_${EMOJI.metadata} ${compactionLabel(event)}_\n\n`
+        if (!event.summary) return marker
+        return `${marker}<details>\n<summary>Compaction summary</summary>\n\n${fence(event.summary, "markdown")}\n\n</details>\n\n`
+      }
+      case "branch":
+        return `<details>\n<summary>Abandoned branch</summary>\n\n${renderAll(new MarkdownRenderer(true), event.events)}</details>\n\n`
+      case "session-end":
+        return `## Summary\n\n${formatTable(summaryFields(event))}\n`
+      case "usage":
+        return ""
+    }
+  }
+}
+
+function formatToolCall(tool: ToolCallEvent): string {
+  const emoji = toolEmoji(tool.success, tool.failure)
+
+  // Shell commands keep their full text and line breaks
+  const command = SHELL_TOOLS.has(tool.name) ? commandText(tool.input) : ""
+  if (command) {
+    const heading = tool.description ? `${emoji} **${tool.name}**: ${tool.description}` : `${emoji} **${tool.name}**`
+    return `${heading}\n\n${fence(command, "bash")}\n\n`
+  }
+
+  // OpenCode sends an empty description for untitled tools
+  const params = tool.description || formatToolParams(tool)
+  return `${emoji} **${tool.name}**: ${inlineCode(params)}\n\n`
+}
+
+// Errors stay visible, successful output is collapsed
+function formatToolOutput(tool: ToolCallEvent): string {
+  const block = fence(tool.output ?? "", "text")
+  if (!tool.success) return `${block}\n\n`
+  return `<details>\n<summary>Output</summary>\n\n${block}\n\n</details>\n\n`
+}
+
+function formatSubagent(subagent: Subagent): string {
+  const body = renderAll(new MarkdownRenderer(true), subagent.events)
+  return `<details>\n<summary>Subagent: ${subagentSummary(subagent)}</summary>\n\n${body}</details>\n\n`
+}
+
+function formatTable(fields: [string, string][]): string {
+  const rows = fields.map(([label, value]) => `| ${label} | ${escapeCell(value)} |`)
+  return ["| Field | Value |", "|---|---|", ...rows].join("\n") + "\n"
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+function blockquote(text: string): string {
+  return text.split("\n").map(line => line ? `> ${line}` : ">").join("\n")
+}
+
+function fence(text: string, lang: string): string {
+  // Fence must be longer than any backtick run in the content
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))
+  const marker = "`".repeat(Math.max(3, longest + 1))
+  return `${marker}${lang}\n${text}\n${marker}`
+}
+
+function inlineCode(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))
+  const marker = "`".repeat(longest + 1)
+  const padded = text.startsWith("`") || text.endsWith("`") ? ` ${text} ` : text
+  return `${marker}${padded}${marker}`
+}
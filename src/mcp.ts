@@ -3,191 +3,252 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js"
-import { readdir, stat } from "node:fs/promises"
-import { join, basename } from "node:path"
-import { spawn } from "node:child_process"
-
-const TRANSCRIPTS_DIR = process.env.TRANSCRIPTS_DIR || join(process.env.HOME || "", "transcripts")
+import { basename, resolve, sep } from "node:path"
+import type { SessionInfo, FileHistorySession } from "./search-index"
+import type { SearchOptions, SearchEngine } from "./transcript-search"
+import { TRANSCRIPTS_DIR, searchTranscripts, openIndex, formatResults } from "./transcript-search"
+import { QueryError } from "./query"
+import { EMOJI, formatTokens } from "./format"
+
+// Keep get_transcript responses small enough to fit in a context window
+const DEFAULT_MAX_CHARS = 40_000
+const MAX_CHARS_LIMIT = 100_000
+
+// Sessions advertised by resources/list
+const RECENT_RESOURCES = 50
+
+interface TranscriptOptions {
+  file?: string
+  session_id?: string
+  start_line?: number
+  end_line?: number
+  around_line?: number
+  context?: number
+  turns?: number
+  max_chars?: number
+}
 
-interface SearchOptions {
-  keywords: string[]
+interface ListSessionsOptions {
+  project?: string
+  source?: "claude" | "codex" | "opencode"
+  model?: string
+  branch?: string
+  approval?: string
+  sandbox?: string
+  effort?: string
+  since?: string
+  until?: string
   days?: number
   limit?: number
-  context_lines?: number
-  message_type?: "user" | "assistant" | "all"
-}
-
-interface SearchResult {
-  file: string
-  date: string
-  matches: string[]
 }
 
-async function searchTranscripts(options: SearchOptions): Promise<SearchResult[]> {
-  const { keywords, days = 90, limit = 20, context_lines = 2, message_type = "all" } = options
+async function listSessions(options: ListSessionsOptions): Promise<SessionInfo[]> {
+  let since = options.since
+  if (!since && options.days !== undefined) {
+    const cutoffDate = new Date()
+    cutoffDate.setDate(cutoffDate.getDate() - options.days)
+    since = cutoffDate.toISOString().slice(0, 10)
+  }
 
-  // Build the grep pattern
-  let pattern = keywords.map(k => escapeRegex(k)).join("|")
+  const index = await openIndex()
+  return index.listSessions({
+    project: options.project,
+    source: options.source,
+    model: options.model,
+    branch: options.branch,
+    approval: options.approval,
+    sandbox: options.sandbox,
+    effort: options.effort,
+    since,
+    until: options.until,
+    limit: options.limit,
+  })
+}
 
-  // Prefix filter by message type
-  if (message_type === "user") {
-    pattern = `^👤.*(?:${pattern})`
+function formatSessions(sessions: SessionInfo[]): string {
+  if (sessions.length === 0) {
+    return "No sessions found."
   }
-  else if (message_type === "assistant") {
-    pattern = `^🤖.*(?:${pattern})`
-  }
-
-  // Calculate date cutoff
-  const cutoffDate = new Date()
-  cutoffDate.setDate(cutoffDate.getDate() - days)
-  const cutoffStr = cutoffDate.toISOString().slice(0, 10)
 
-  // Find matching files (date-filtered)
-  const files = await findRecentFiles(TRANSCRIPTS_DIR, cutoffStr)
+  let output = ""
+  for (const session of sessions) {
+    const started = session.started ? session.started.slice(0, 16).replace("T", " ") : session.date
+    const branch = session.branch ? ` (${session.branch})` : ""
+    output += `\n${started} ${session.source ?? "unknown"} ${session.project ?? "unknown"}${branch}\n`
+
+    const title = session.title ?? session.prompt
+    if (title) {
+      output += `  ${session.title ? "Title" : "Prompt"}: ${title}\n`
+    }
 
-  if (files.length === 0) {
-    return []
+    const details: string[] = []
+    if (session.durationMinutes !== null) details.push(`Duration: ${formatMinutes(session.durationMinutes)}`)
+    details.push(`Messages: ${session.userMessages} user, ${session.assistantMessages} assistant`)
+    details.push(`Tool calls: ${session.toolCalls}`)
+    if (session.inputTokens > 0 || session.outputTokens > 0) {
+      details.push(`Tokens: ${formatTokens(session.inputTokens)} in, ${formatTokens(session.outputTokens)} out`)
+    }
+    if (session.models.length > 0) details.push(`Models: ${session.models.join(", ")}`)
+    if (session.settings.length > 0) details.push(`Settings: ${session.settings.join(", ")}`)
+    output += `  ${details.join(" | ")}\n`
+    output += `  ${session.path}\n`
   }
+  return output.trim()
+}
 
-  // Run ripgrep
-  const results = await runGrep(pattern, files, context_lines, limit)
-  return results
+interface FileHistoryOptions {
+  path: string
+  project?: string
+  days?: number
+  limit?: number
 }
 
-async function findRecentFiles(dir: string, cutoffDate: string): Promise<string[]> {
-  const results: string[] = []
+async function fileHistory(options: FileHistoryOptions): Promise<FileHistorySession[]> {
+  let since: string | undefined
+  if (options.days !== undefined) {
+    const cutoffDate = new Date()
+    cutoffDate.setDate(cutoffDate.getDate() - options.days)
+    since = cutoffDate.toISOString().slice(0, 10)
+  }
 
-  async function walk(current: string): Promise<void> {
-    let entries
-    try {
-      entries = await readdir(current, { withFileTypes: true })
-    }
-    catch {
-      return
-    }
+  const index = await openIndex()
+  return index.fileHistory({
+    path: options.path,
+    project: options.project,
+    since,
+    limit: options.limit,
+  })
+}
 
-    for (const entry of entries) {
-      const fullPath = join(current, entry.name)
+function formatFileHistory(history: FileHistorySession[]): string {
+  if (history.length === 0) {
+    return "No sessions touched that file."
+  }
 
-      if (entry.isDirectory()) {
-        // Directory names are like "2025-01", skip old ones
-        if (entry.name.match(/^\d{4}-\d{2}$/) && entry.name < cutoffDate.slice(0, 7)) {
-          continue
-        }
-        await walk(fullPath)
-      }
-      else if (entry.name.endsWith(".txt")) {
-        // File names start with date like "2025-01-15T..."
-        const fileDate = entry.name.slice(0, 10)
-        if (fileDate >= cutoffDate) {
-          results.push(fullPath)
-        }
+  let output = ""
+  for (const { session, touches } of history) {
+    const started = session.started ? session.started.slice(0, 16).replace("T", " ") : session.date
+    const branch = session.branch ? ` (${session.branch})` : ""
+    output += `\n${started} ${session.source ?? "unknown"} ${session.project ?? "unknown"}${branch}\n`
+    output += `  ${session.path}\n`
+
+    let lastPrompt: string | null = null
+    for (const touch of touches) {
+      // Only repeat the prompt when it changes between touches
+      if (touch.prompt && touch.prompt !== lastPrompt) {
+        output += `  ${EMOJI.user} ${touch.prompt}\n`
+        lastPrompt = touch.prompt
       }
+      const emoji = touch.success ? EMOJI.toolSuccess : EMOJI.toolFailure
+      output += `    ${touch.line}: ${emoji} ${touch.tool} (${touch.operation}) ${touch.path}\n`
     }
   }
+  return output.trim()
+}
 
-  try {
-    await walk(dir)
+function formatMinutes(minutes: number): string {
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`
   }
-  catch {
-    // Directory doesn't exist
+  if (minutes >= 1) {
+    return `${Math.round(minutes)}m`
   }
-
-  return results.sort().reverse() // Most recent first
-}
-
-function runGrep(pattern: string, files: string[], contextLines: number, limit: number): Promise<SearchResult[]> {
-  return new Promise((resolve) => {
-    const args = [
-      "-i",                          // Case insensitive
-      "-n",                          // Line numbers
-      `-C${contextLines}`,           // Context lines
-      "-e", pattern,                 // Pattern
-      "--max-count", "3",            // Max matches per file
-      ...files.slice(0, 100)         // Limit files to search
-    ]
-
-    const rg = spawn("rg", args, { stdio: ["ignore", "pipe", "pipe"] })
-
-    let stdout = ""
-    rg.stdout.on("data", (data) => { stdout += data.toString() })
-    rg.stderr.on("data", () => { /* ignore */ })
-
-    rg.on("close", () => {
-      const results = parseGrepOutput(stdout, limit)
-      resolve(results)
-    })
-
-    rg.on("error", () => {
-      resolve([])
-    })
-  })
+  return `${Math.round(minutes * 60)}s`
 }
 
-function parseGrepOutput(output: string, limit: number): SearchResult[] {
-  const byFile = new Map<string, string[]>()
-
-  // Group output by file
-  let currentFile = ""
-  const lines = output.split("\n")
+async function getTranscript(options: TranscriptOptions): Promise<string> {
+  const path = await resolveTranscriptPath(options)
+  if (!path) {
+    return options.file
+      ? `Error: transcript not found: ${options.file}`
+      : `Error: no transcript for session id: ${options.session_id}`
+  }
 
-  for (const line of lines) {
-    if (line === "--") {
-      continue // Separator between matches
+  const lines = (await Bun.file(path).text()).replace(/\n$/, "").split("\n")
+  const total = lines.length
+  const maxChars = Math.min(options.max_chars ?? DEFAULT_MAX_CHARS, MAX_CHARS_LIMIT)
+
+  // Resolve the requested window to 1-based inclusive line numbers
+  let start = 1
+  let end = total
+  if (options.around_line !== undefined) {
+    const context = options.context ?? 20
+    start = options.around_line - context
+    end = options.around_line + context
+  }
+  else {
+    start = options.start_line ?? 1
+    if (options.end_line !== undefined) {
+      end = options.end_line
     }
-
-    // ripgrep output: /path/to/file:linenum:content
-    const match = line.match(/^(.+\.txt)[:\-](\d+)[:\-](.*)$/)
-    if (match) {
-      const [, file, , content] = match
-      currentFile = file
-
-      if (!byFile.has(file)) {
-        byFile.set(file, [])
-      }
-      byFile.get(file)!.push(content)
+    else if (options.turns !== undefined) {
+      end = findTurnsEnd(lines, start, options.turns)
     }
   }
+  start = Math.max(1, start)
+  end = Math.min(total, end)
 
-  // Convert to results
-  const results: SearchResult[] = []
-  for (const [file, matches] of byFile) {
-    const filename = basename(file)
-    const date = filename.slice(0, 10)
-    results.push({ file, date, matches })
+  if (start > end) {
+    return `Error: line range ${start}-${end} is outside ${path} (${total} lines)`
+  }
 
-    if (results.length >= limit) {
-      break
-    }
+  let body = ""
+  let last = start - 1
+  for (let n = start; n <= end; n++) {
+    const line = `${n}: ${lines[n - 1]}\n`
+    if (body.length + line.length > maxChars && n > start) break
+    body += line
+    last = n
   }
 
-  return results
+  let output = `${path} (lines ${start}-${last} of ${total})\n\n${body}`
+  if (last < end) {
+    output += `\n[truncated at ${maxChars} characters; continue with start_line=${last + 1}]`
+  }
+  else if (last < total) {
+    output += `\n[${total - last} more lines; continue with start_line=${last + 1}]`
+  }
+  return output.trimEnd()
 }
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
-}
+async function resolveTranscriptPath(options: TranscriptOptions): Promise<string | null> {
+  if (options.file) {
+    // Only serve transcripts from inside the transcripts directory
+    const root = resolve(TRANSCRIPTS_DIR)
+    const path = resolve(root, options.file)
+    if (!path.startsWith(root + sep) || !path.endsWith(".txt")) return null
+    return await Bun.file(path).exists() ? path : null
+  }
 
-function formatResults(results: SearchResult[]): string {
-  if (results.length === 0) {
-    return "No matches found."
+  if (options.session_id) {
+    const index = await openIndex()
+    return index.findSessionPath(options.session_id)
   }
 
-  let output = ""
-  for (const result of results) {
-    output += `\n${result.date} ${result.file}\n`
-    for (const line of result.matches) {
-      output += `  ${line}\n`
+  return null
+}
+
+function findTurnsEnd(lines: string[], start: number, turns: number): number {
+  // A turn runs from one user prompt up to the next; the start line's own
+  // turn counts as the first one
+  let seen = 0
+  for (let n = start + 1; n <= lines.length; n++) {
+    if (lines[n - 1].startsWith(`${EMOJI.user} `)) {
+      seen++
+      if (seen >= turns) return n - 1
     }
   }
-  return output.trim()
+  return lines.length
 }
 
 // MCP Server setup
 const server = new Server(
   { name: "transcripts", version: "1.0.0" },
-  { capabilities: { tools: {} } }
+  { capabilities: { tools: {}, resources: {} } }
 )
 
 server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -195,14 +256,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: "search_transcripts",
-        description: "Search past conversation transcripts for relevant context. Use this proactively when: (1) Starting work on a project - check for prior discussions about this codebase, (2) Encountering unfamiliar patterns or decisions - find the rationale, (3) The user references something discussed previously, (4) Exploring a codebase to understand its history. This is the user's long-term memory across all AI conversations. Keywords are OR-matched.",
+        description: "Search past conversation transcripts for relevant context. Use this proactively when: (1) Starting work on a project - check for prior discussions about this codebase, (2) Encountering unfamiliar patterns or decisions - find the rationale, (3) The user references something discussed previously, (4) Exploring a codebase to understand its history. This is the user's long-term memory across all AI conversations. Results are ranked by relevance and show each session's hit count. Pass either a query (terms are AND-matched and support OR, NOT, \"quoted phrases\" and qualifiers) or a keywords array (OR-matched).",
         inputSchema: {
           type: "object",
           properties: {
+            query: {
+              type: "string",
+              description: "Search query. Space-separated terms must all appear in a session; also supports OR, NOT or -term, \"exact phrases\", parentheses, and qualifiers user:, assistant:, tool:Bash, project:, source:codex, model:opus, and for Codex sessions approval:never, sandbox:danger, effort:high. Example: JWT refresh -legacy source:claude"
+            },
             keywords: {
               type: "array",
               items: { type: "string" },
-              description: "Keywords to search for (OR matched)"
+              description: "Keywords to search for (OR matched); ignored when query is given"
             },
             days: {
               type: "number",
@@ -219,10 +284,144 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             message_type: {
               type: "string",
               enum: ["user", "assistant", "all"],
-              description: "Filter by message type (default: all)"
+              description: "Filter by message type for terms without a user: or assistant: qualifier (default: all)"
+            },
+            sort: {
+              type: "string",
+              enum: ["relevance", "date"],
+              description: "relevance ranks sessions by BM25 score, boosting hits in user prompts; date is newest first (default: relevance)"
+            },
+            recency_half_life: {
+              type: "number",
+              description: "Favor recent sessions: halve a session's relevance score for every this many days of age (default: no decay)"
+            },
+            engine: {
+              type: "string",
+              enum: ["auto", "index", "ripgrep", "builtin"],
+              description: "Search engine. auto uses the index, falling back to ripgrep and then a built-in scanner; a note in the output says when a fallback was used (default: auto)"
+            }
+          }
+        }
+      },
+      {
+        name: "get_transcript",
+        description: "Read a past transcript found via search_transcripts, either whole or as a line window. Pass the file path (or session id) from a search result, then page with start_line/end_line, around_line/context for the lines around a match, or start_line/turns to follow the next N conversation turns. Output lines are numbered; responses are capped at max_chars and say where to continue.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            file: {
+              type: "string",
+              description: "Transcript path from search results (absolute or relative to the transcripts directory)"
+            },
+            session_id: {
+              type: "string",
+              description: "Session id (or unique prefix) instead of a file path"
+            },
+            start_line: {
+              type: "number",
+              description: "First line to return (1-based, default: 1)"
+            },
+            end_line: {
+              type: "number",
+              description: "Last line to return (inclusive)"
+            },
+            around_line: {
+              type: "number",
+              description: "Return lines centered on this line (e.g. a search match)"
+            },
+            context: {
+              type: "number",
+              description: "Lines either side of around_line (default: 20)"
+            },
+            turns: {
+              type: "number",
+              description: "Return this many conversation turns starting at start_line"
+            },
+            max_chars: {
+              type: "number",
+              description: `Maximum characters to return (default: ${DEFAULT_MAX_CHARS}, max: ${MAX_CHARS_LIMIT})`
+            }
+          }
+        }
+      },
+      {
+        name: "list_sessions",
+        description: "List past sessions by metadata rather than keywords, newest first. Use this to answer questions like \"what did I work on in this repo last week?\": filter by project path prefix, source, model, branch, Codex approval policy, sandbox mode or reasoning effort, and date range. Returns date, source, project, branch, title or first prompt, duration, message counts, tokens and the transcript path for get_transcript.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project: {
+              type: "string",
+              description: "Project path prefix (e.g. /Users/me/github/my-project)"
+            },
+            source: {
+              type: "string",
+              enum: ["claude", "codex", "opencode"],
+              description: "Only sessions from this assistant"
+            },
+            model: {
+              type: "string",
+              description: "Model name substring (e.g. opus, gpt-5)"
+            },
+            branch: {
+              type: "string",
+              description: "Git branch name"
+            },
+            approval: {
+              type: "string",
+              description: "Codex sessions with a turn under this approval policy (untrusted, on-failure, on-request, never)"
+            },
+            sandbox: {
+              type: "string",
+              description: "Codex sessions with a turn in this sandbox mode, or a prefix of it (read-only, workspace-write, danger-full-access)"
+            },
+            effort: {
+              type: "string",
+              description: "Codex sessions with a turn at this reasoning effort (minimal, low, medium, high)"
+            },
+            since: {
+              type: "string",
+              description: "Earliest date, YYYY-MM-DD"
+            },
+            until: {
+              type: "string",
+              description: "Latest date, YYYY-MM-DD (inclusive)"
+            },
+            days: {
+              type: "number",
+              description: "Shorthand for since: sessions from the last N days"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum sessions to return (default: 50)"
+            }
+          }
+        }
+      },
+      {
+        name: "file_history",
+        description: "Find past sessions that read, wrote, edited or ran shell commands on a file, newest first. Use this to answer \"when was this file last changed by an agent, and why?\". Each touch shows its transcript line and the user prompt that preceded it; times are session start times. Follow up with get_transcript around_line for details.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "File path, path suffix (src/auth/session.ts) or glob (**/session.ts)"
+            },
+            project: {
+              type: "string",
+              description: "Only sessions under this project path prefix"
+            },
+            days: {
+              type: "number",
+              description: "How many days back to search (default: all)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum sessions to return (default: 20)"
             }
           },
-          required: ["keywords"]
+          required: ["path"]
         }
       }
     ]
@@ -233,21 +432,109 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   if (request.params.name === "search_transcripts") {
     const rawArgs = request.params.arguments ?? {}
     const args: SearchOptions = {
-      keywords: rawArgs.keywords as string[] ?? [],
+      query: rawArgs.query as string | undefined,
+      keywords: rawArgs.keywords as string[] | undefined,
       days: rawArgs.days as number | undefined,
       limit: rawArgs.limit as number | undefined,
       context_lines: rawArgs.context_lines as number | undefined,
       message_type: rawArgs.message_type as "user" | "assistant" | "all" | undefined,
+      sort: rawArgs.sort as "relevance" | "date" | undefined,
+      recency_half_life: rawArgs.recency_half_life as number | undefined,
+      engine: rawArgs.engine as SearchEngine | undefined,
     }
 
-    if (!args.keywords || args.keywords.length === 0) {
+    if (!args.query?.trim() && (!args.keywords || args.keywords.length === 0)) {
       return {
-        content: [{ type: "text", text: "Error: keywords array is required" }]
+        content: [{ type: "text", text: "Error: query or keywords is required" }]
       }
     }
 
-    const results = await searchTranscripts(args)
-    const formatted = formatResults(results)
+    let formatted: string
+    try {
+      formatted = formatResults(await searchTranscripts(args))
+    }
+    catch (err) {
+      if (err instanceof QueryError) {
+        formatted = `Error: invalid query: ${err.message}`
+      }
+      else {
+        // An explicitly requested engine was unavailable
+        formatted = `Error: ${err instanceof Error ? err.message : String(err)}`
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: formatted }]
+    }
+  }
+
+  if (request.params.name === "get_transcript") {
+    const rawArgs = request.params.arguments ?? {}
+    const args: TranscriptOptions = {
+      file: rawArgs.file as string | undefined,
+      session_id: rawArgs.session_id as string | undefined,
+      start_line: rawArgs.start_line as number | undefined,
+      end_line: rawArgs.end_line as number | undefined,
+      around_line: rawArgs.around_line as number | undefined,
+      context: rawArgs.context as number | undefined,
+      turns: rawArgs.turns as number | undefined,
+      max_chars: rawArgs.max_chars as number | undefined,
+    }
+
+    if (!args.file && !args.session_id) {
+      return {
+        content: [{ type: "text", text: "Error: file or session_id is required" }]
+      }
+    }
+
+    const text = await getTranscript(args)
+
+    return {
+      content: [{ type: "text", text }]
+    }
+  }
+
+  if (request.params.name === "list_sessions") {
+    const rawArgs = request.params.arguments ?? {}
+    const args: ListSessionsOptions = {
+      project: rawArgs.project as string | undefined,
+      source: rawArgs.source as "claude" | "codex" | "opencode" | undefined,
+      model: rawArgs.model as string | undefined,
+      branch: rawArgs.branch as string | undefined,
+      approval: rawArgs.approval as string | undefined,
+      sandbox: rawArgs.sandbox as string | undefined,
+      effort: rawArgs.effort as string | undefined,
+      since: rawArgs.since as string | undefined,
+      until: rawArgs.until as string | undefined,
+      days: rawArgs.days as number | undefined,
+      limit: rawArgs.limit as number | undefined,
+    }
+
+    const sessions = await listSessions(args)
+    const formatted = formatSessions(sessions)
+
+    return {
+      content: [{ type: "text", text: formatted }]
+    }
+  }
+
+  if (request.params.name === "file_history") {
+    const rawArgs = request.params.arguments ?? {}
+    const args: FileHistoryOptions = {
+      path: rawArgs.path as string ?? "",
+      project: rawArgs.project as string | undefined,
+      days: rawArgs.days as number | undefined,
+      limit: rawArgs.limit as number | undefined,
+    }
+
+    if (!args.path) {
+      return {
+        content: [{ type: "text", text: "Error: path is required" }]
+      }
+    }
+
+    const history = await fileHistory(args)
+    const formatted = formatFileHistory(history)
 
     return {
       content: [{ type: "text", text: formatted }]
@@ -259,6 +546,81 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 })
 
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const index = await openIndex()
+  const sessions = index.listSessions({ limit: RECENT_RESOURCES })
+
+  return {
+    resources: sessions
+      .filter(session => session.source && session.sessionId)
+      .map(session => ({
+        uri: sessionUri(session),
+        name: session.title ?? session.prompt ?? basename(session.path, ".txt"),
+        description: `${session.started ?? session.date} ${session.source} ${session.project ?? ""}`.trim(),
+        mimeType: "text/plain",
+      }))
+  }
+})
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: "transcript://{source}/{sessionId}",
+        name: "Session transcript",
+        description: "Full transcript of one session; source is claude, codex or opencode",
+        mimeType: "text/plain",
+      },
+      {
+        uriTemplate: "transcript://project/{project}",
+        name: "Project sessions",
+        description: "Recent sessions for a project; project is the URL-encoded project path",
+        mimeType: "text/plain",
+      },
+    ]
+  }
+})
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const uri = request.params.uri
+  const text = await readResource(uri)
+
+  return {
+    contents: [{ uri, mimeType: "text/plain", text }]
+  }
+})
+
+function sessionUri(session: SessionInfo): string {
+  return `transcript://${session.source}/${encodeURIComponent(session.sessionId ?? "")}`
+}
+
+async function readResource(uri: string): Promise<string> {
+  const match = uri.match(/^transcript:\/\/([^/]+)\/(.+)$/)
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`)
+  }
+
+  const [, kind, rest] = match
+  const value = decodeURIComponent(rest)
+  const index = await openIndex()
+
+  if (kind === "project") {
+    return formatSessions(index.listSessions({ project: value, limit: RECENT_RESOURCES }))
+  }
+
+  const path = index.findSessionPath(value, kind)
+  if (!path) {
+    throw new Error(`Transcript not found: ${uri}`)
+  }
+
+  const text = await Bun.file(path).text()
+  if (text.length <= MAX_CHARS_LIMIT) {
+    return text
+  }
+  return text.slice(0, MAX_CHARS_LIMIT) +
+    `\n[truncated at ${MAX_CHARS_LIMIT} characters; use get_transcript with file="${path}" to read the rest]\n`
+}
+
 async function main() {
   const transport = new StdioServerTransport()
   await server.connect(transport)
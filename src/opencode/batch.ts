@@ -1,16 +1,27 @@
-import { readdir, mkdir, stat } from "node:fs/promises"
-import { join, dirname } from "node:path"
-import { loadSession, formatSession } from "./parse"
-
-export interface BatchOptions {
+import { mkdir, stat } from "node:fs/promises"
+import { join, dirname, relative } from "node:path"
+import { parseSession } from "./parse"
+import { StorageIndex } from "./storage"
+import type { OutputFormat } from "../render"
+import { createRenderer, fileExtension } from "../render"
+import type { EventOptions } from "../events"
+import { renderAll } from "../events"
+import { syncIndex } from "../search-index"
+import type { Redactor, RedactionCounts, RedactionReport } from "../redact"
+import { logRedactions } from "../redact"
+
+export interface BatchOptions extends EventOptions {
   input: string
   output: string
   force?: boolean
+  format?: OutputFormat
+  // Applied to every transcript before it is written
+  redactor?: Redactor
 }
 
 export async function processBatch(options: BatchOptions): Promise<void> {
-  const storageDir = options.input
-  const sessionIds = await findAllSessions(storageDir)
+  const storage = await StorageIndex.build(options.input)
+  const sessionIds = storage.sessionIds()
   const total = sessionIds.length
   const isTTY = process.stderr.isTTY
   console.error(`Found ${total} sessions`)
@@ -18,6 +29,7 @@ export async function processBatch(options: BatchOptions): Promise<void> {
   let processed = 0
   let skipped = 0
   let upToDate = 0
+  const redactions: RedactionReport[] = []
 
   for (const sessionId of sessionIds) {
     const current = processed + skipped + upToDate + 1
@@ -29,26 +41,33 @@ export async function processBatch(options: BatchOptions): Promise<void> {
       console.error(`  Processing ${current}/${total}...`)
     }
 
-    const data = await loadSession(storageDir, sessionId)
-    if (!data) {
+    const session = await storage.readSession(sessionId)
+    if (!session) {
       skipped++
       continue
     }
 
-    const { folder, timestamp } = deriveDatePath(data.session.time.created)
-    const outPath = join(options.output, folder, `${timestamp}-opencode.txt`)
+    const { folder, timestamp } = deriveDatePath(session.time.created)
+    const outPath = join(options.output, folder, `${timestamp}-opencode.${fileExtension(options.format)}`)
 
-    const messageDir = join(storageDir, "message", sessionId)
-    if (!options.force && await isUpToDate(messageDir, outPath)) {
+    if (!options.force && await isUpToDate(storage.messageDir(sessionId), outPath)) {
       upToDate++
       continue
     }
 
+    const data = await storage.loadSession(session)
+    if (!data) {
+      skipped++
+      continue
+    }
+
     await mkdir(dirname(outPath), { recursive: true })
 
-    const content = formatSession(data)
+    const content = renderAll(createRenderer(options.format), parseSession(data, options))
     if (content.trim()) {
-      await Bun.write(outPath, content)
+      const counts: RedactionCounts = new Map()
+      await Bun.write(outPath, options.redactor ? options.redactor.redact(content, counts) : content)
+      redactions.push({ file: relative(options.output, outPath), counts })
       processed++
     }
     else {
@@ -60,26 +79,15 @@ export async function processBatch(options: BatchOptions): Promise<void> {
     process.stderr.write("\r" + " ".repeat(40) + "\r")
   }
   console.error(`  Done: ${processed} processed, ${skipped} skipped, ${upToDate} up-to-date`)
-}
-
-async function findAllSessions(storageDir: string): Promise<string[]> {
-  const sessionIds = new Set<string>()
-
-  // Get sessions from message directories (most reliable)
-  const messageDir = join(storageDir, "message")
-  try {
-    const dirs = await readdir(messageDir)
-    for (const dir of dirs) {
-      if (dir.startsWith("ses_")) {
-        sessionIds.add(dir)
-      }
-    }
-  }
-  catch {
-    // Ignore errors
+  if (options.redactor) {
+    logRedactions(redactions)
   }
 
-  return Array.from(sessionIds)
+  // Search index covers the text transcripts only
+  if ((options.format ?? "text") === "text") {
+    const index = await syncIndex(options.output)
+    console.error(`  Index: ${index.indexed} updated, ${index.removed} removed, ${index.total} total`)
+  }
 }
 
 async function isUpToDate(inputPath: string, outputPath: string): Promise<boolean> {
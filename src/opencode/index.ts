@@ -1,11 +1,34 @@
 import { parseArgs } from "node:util"
+import { resolve } from "node:path"
 import { processBatch } from "./batch"
+import { parseSession } from "./parse"
+import { StorageIndex } from "./storage"
+import type { EventOptions } from "../events"
+import { renderAll } from "../events"
+import type { RedactionCounts } from "../redact"
+import { Redactor, formatRedactionCounts } from "../redact"
+import type { PricingTable } from "../pricing"
+import { loadPricing, PricingError } from "../pricing"
+import type { OutputFormat } from "../render"
+import { OUTPUT_FORMATS, parseOutputFormat, parseOutputLimits, parseThinkingLimit, createRenderer } from "../render"
 
 async function main(): Promise<void> {
   const { values, positionals } = parseArgs({
     options: {
       batch: { type: "boolean", short: "b", default: false },
       output: { type: "string", short: "o" },
+      list: { type: "boolean", short: "l", default: false },
+      latest: { type: "boolean", default: false },
+      project: { type: "string", short: "p" },
+      format: { type: "string" },
+      "include-thinking": { type: "boolean", default: false },
+      "thinking-limit": { type: "string" },
+      "tool-output": { type: "boolean", default: false },
+      "tool-output-lines": { type: "string", multiple: true },
+      redact: { type: "boolean", default: false },
+      "redact-pattern": { type: "string", multiple: true },
+      "anonymize-home": { type: "boolean", default: false },
+      pricing: { type: "string" },
       help: { type: "boolean", short: "h", default: false },
     },
     allowPositionals: true,
@@ -16,23 +39,137 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
+  const format = parseOutputFormat(values.format)
+  if (!format) {
+    console.error(`Unknown --format "${values.format}" (expected one of: ${OUTPUT_FORMATS.join(", ")})`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const outputLimits = parseOutputLimits(values["tool-output-lines"])
+  if (!outputLimits) {
+    console.error(`Invalid --tool-output-lines "${values["tool-output-lines"]}" (expected head:tail or Tool=head:tail)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const thinkingLimit = parseThinkingLimit(values["thinking-limit"])
+  if (thinkingLimit === null) {
+    console.error(`Invalid --thinking-limit "${values["thinking-limit"]}" (expected a positive number of characters)`)
+    printUsage()
+    process.exit(1)
+  }
+
+  let pricing: PricingTable | undefined
+  try {
+    pricing = values.pricing ? await loadPricing(values.pricing) : undefined
+  }
+  catch (err) {
+    if (!(err instanceof PricingError)) throw err
+    console.error(`Invalid --pricing: ${err.message}`)
+    process.exit(1)
+  }
+
+  let redactor: Redactor | undefined
+  try {
+    redactor = Redactor.create({
+      redact: values.redact,
+      redactPatterns: values["redact-pattern"],
+      anonymizeHome: values["anonymize-home"],
+    })
+  }
+  catch (err) {
+    console.error(`Invalid --redact-pattern: ${(err as Error).message}`)
+    process.exit(1)
+  }
+
+  const eventOptions: EventOptions = {
+    includeThinking: values["include-thinking"],
+    thinkingLimit,
+    toolOutput: values["tool-output"],
+    outputLimits,
+    pricing,
+  }
+  const storageDir = positionals[0]
+  const project = values.project ? resolve(values.project) : undefined
+
   if (values.batch) {
-    if (!positionals[0] || !values.output) {
+    if (!storageDir || !values.output) {
       console.error("Batch mode requires input path and --output")
       printUsage()
       process.exit(1)
     }
 
     await processBatch({
-      input: positionals[0],
+      input: storageDir,
       output: values.output,
+      format,
+      ...eventOptions,
+      redactor,
     })
   }
+  else if (values.list) {
+    if (!storageDir) {
+      console.error("List mode requires the storage directory")
+      printUsage()
+      process.exit(1)
+    }
+    await listMode(storageDir, project)
+  }
   else {
-    console.error("Stream mode not supported for OpenCode (data is fragmented)")
-    console.error("Use batch mode: opencode-transcript -b ~/.local/share/opencode/storage -o <output>")
+    const sessionId = positionals[1]
+    if (!storageDir || (!sessionId && !values.latest && !project)) {
+      console.error("Session mode requires the storage directory and a session id, --latest or --project")
+      printUsage()
+      process.exit(1)
+    }
+    await sessionMode(storageDir, sessionId ?? null, project, format, eventOptions, redactor)
+  }
+}
+
+async function listMode(storageDir: string, project?: string): Promise<void> {
+  const sessions = await (await StorageIndex.build(storageDir)).listSessions(project)
+  if (sessions.length === 0) {
+    console.error(project ? `No sessions for ${project}` : `No sessions found in ${storageDir}`)
+    return
+  }
+  for (const session of sessions) {
+    const created = new Date(session.time.created).toISOString().slice(0, 16).replace("T", " ")
+    console.log(`${session.id}  ${created}  ${session.title || "(untitled)"}  ${session.directory}`)
+  }
+}
+
+// One session to stdout; without an id, the newest one (in the project, if given)
+async function sessionMode(
+  storageDir: string,
+  sessionId: string | null,
+  project: string | undefined,
+  format: OutputFormat,
+  options: EventOptions,
+  redactor?: Redactor
+): Promise<void> {
+  const storage = await StorageIndex.build(storageDir)
+  const session = sessionId ? await storage.readSession(sessionId) : (await storage.listSessions(project))[0]
+  if (!session) {
+    console.error(sessionId
+      ? `Session ${sessionId} not found in ${storageDir}`
+      : project ? `No sessions for ${project}` : `No sessions found in ${storageDir}`)
+    process.exit(1)
+  }
+
+  const data = await storage.loadSession(session)
+  if (!data) {
+    console.error(`Session ${session.id} has no messages`)
     process.exit(1)
   }
+
+  const redactions: RedactionCounts = new Map()
+  const content = renderAll(createRenderer(format), parseSession(data, options))
+  process.stdout.write(redactor ? redactor.redact(content, redactions) : content)
+
+  if (redactions.size > 0) {
+    console.error(`Redacted ${formatRedactionCounts(redactions)}`)
+  }
 }
 
 function printUsage(): void {
@@ -40,19 +177,42 @@ function printUsage(): void {
 Convert OpenCode session data to readable transcripts
 
 Usage:
-  bun run opencode -- -b <input> -o <output>    Batch mode (required)
+  bun run opencode -- <storage> <session-id>    One session to stdout
+  bun run opencode -- <storage> --latest        Newest session to stdout
+  bun run opencode -- <storage> --list          List sessions
+  bun run opencode -- -b <storage> -o <output>  Batch mode
 
 Options:
   -b, --batch       Enable batch mode (process all sessions)
-  -o, --output      Output directory (required)
+  -o, --output      Output directory (required for batch mode)
+  -l, --list        List session ids, start dates, titles and directories, newest first
+  --latest          Convert the newest session
+  -p, --project     Only sessions started in this directory or below it
+                    (with no session id, converts the newest one)
+  --format          Output format: text (default), jsonl, or markdown
+  --include-thinking  Include reasoning parts
+  --thinking-limit  Truncate each reasoning part to N characters
+  --tool-output     Include tool output (first 20 and last 10 lines; failures always)
+  --tool-output-lines  Lines kept as head:tail, or Tool=head:tail for one tool (repeatable)
+  --redact          Redact API keys, tokens, private keys, Authorization headers and emails
+  --redact-pattern  Also redact matches of this regular expression (repeatable)
+  --anonymize-home  Replace home directory paths with ~
+  --pricing         JSON file of per-model token rates for cost estimates
   -h, --help        Show this help
 
 Examples:
+  # Find a session, then convert it
+  bun run opencode -- ~/.local/share/opencode/storage --list
+  bun run opencode -- ~/.local/share/opencode/storage ses_5a1b2c3d > session.txt
+
+  # Latest session in the current project
+  bun run opencode -- ~/.local/share/opencode/storage --project .
+
   # Process all sessions
   bun run opencode -- --batch ~/.local/share/opencode/storage --output ~/transcripts
 
-Note: Stream mode is not supported because OpenCode stores data across
-multiple files (sessions, messages, parts) that must be joined.
+Note: OpenCode stores sessions, messages and parts in separate files, so
+there is no stdin mode; sessions are read from the storage directory.
 `)
 }
 
@@ -1,144 +1,54 @@
-import { readdir } from "node:fs/promises"
-import { join } from "node:path"
-import type {
-  OpenCodeSession,
-  OpenCodeMessage,
-  OpenCodePart,
-  OpenCodeSessionData,
-  OpenCodeStats,
-} from "./types"
-import { EMOJI } from "../format"
+import type { OpenCodeSessionData } from "./types"
+import type { TranscriptEvent, FileTouch, EventOptions } from "../events"
+import { emptyStats, recordEvent, hasContent, thinkingEvent, toolOutput } from "../events"
+import { priceUsage } from "../pricing"
 
-export async function loadSession(
-  storageDir: string,
-  sessionId: string
-): Promise<OpenCodeSessionData | null> {
-  // Find and load session file
-  const session = await findSessionFile(storageDir, sessionId)
-  if (!session) return null
-
-  // Load all messages for this session
-  const messagesDir = join(storageDir, "message", sessionId)
-  const messages = await loadMessages(messagesDir)
-  if (messages.length === 0) return null
-
-  // Load all parts for these messages
-  const parts = new Map<string, OpenCodePart[]>()
-  for (const msg of messages) {
-    const partsDir = join(storageDir, "part", msg.id)
-    const msgParts = await loadParts(partsDir)
-    if (msgParts.length > 0) {
-      parts.set(msg.id, msgParts)
-    }
-  }
-
-  return { session, messages, parts }
-}
-
-async function findSessionFile(
-  storageDir: string,
-  sessionId: string
-): Promise<OpenCodeSession | null> {
-  const sessionDir = join(storageDir, "session")
-  try {
-    const projectDirs = await readdir(sessionDir)
-    for (const projectDir of projectDirs) {
-      const projectPath = join(sessionDir, projectDir)
-      const sessionFiles = await readdir(projectPath).catch(() => [])
-      for (const file of sessionFiles) {
-        if (file === `${sessionId}.json`) {
-          const content = await Bun.file(join(projectPath, file)).json()
-          return content as OpenCodeSession
-        }
-      }
-    }
-  }
-  catch {
-    return null
-  }
-  return null
-}
-
-async function loadMessages(messagesDir: string): Promise<OpenCodeMessage[]> {
-  try {
-    const files = await readdir(messagesDir)
-    const messages: OpenCodeMessage[] = []
-    for (const file of files) {
-      if (file.endsWith(".json")) {
-        const content = await Bun.file(join(messagesDir, file)).json()
-        messages.push(content as OpenCodeMessage)
-      }
-    }
-    // Sort by creation time
-    messages.sort((a, b) => a.time.created - b.time.created)
-    return messages
-  }
-  catch {
-    return []
-  }
-}
-
-async function loadParts(partsDir: string): Promise<OpenCodePart[]> {
-  try {
-    const files = await readdir(partsDir)
-    const parts: OpenCodePart[] = []
-    for (const file of files) {
-      if (file.endsWith(".json")) {
-        const content = await Bun.file(join(partsDir, file)).json()
-        parts.push(content as OpenCodePart)
-      }
-    }
-    return parts
-  }
-  catch {
-    return []
-  }
-}
-
-export function formatSession(data: OpenCodeSessionData): string {
+export function parseSession(data: OpenCodeSessionData, options: EventOptions = {}): TranscriptEvent[] {
   const { session, messages, parts } = data
-  const stats: OpenCodeStats = {
-    userMessages: 0,
-    assistantMessages: 0,
-    toolCalls: 0,
-    toolErrors: 0,
-    inputTokens: 0,
-    outputTokens: 0,
-    totalCost: 0,
-    filesRead: new Set(),
-    filesWritten: new Set(),
-    lastTimestamp: null,
-  }
+  const stats = emptyStats()
+  const events: TranscriptEvent[] = []
+  const started = new Date(session.time.created).toISOString()
 
-  let output = ""
-
-  // Header
-  output += `${EMOJI.metadata} Session: ${session.id}\n`
-  output += `${EMOJI.metadata} Project: ${session.directory}\n`
-  output += `${EMOJI.metadata} Started: ${new Date(session.time.created).toISOString()}\n`
-  if (session.title) {
-    output += `${EMOJI.metadata} Title: ${session.title}\n`
+  const emit = (event: TranscriptEvent): void => {
+    recordEvent(stats, event)
+    events.push(event)
   }
-  output += "\n"
+
+  emit({
+    type: "session-start",
+    source: "opencode",
+    timestamp: started,
+    sessionId: session.id,
+    project: session.directory,
+    title: session.title || undefined,
+  })
 
   let currentModel: string | null = null
+  let lastTimestamp: number | null = null
 
   for (const msg of messages) {
-    stats.lastTimestamp = msg.time.completed || msg.time.created
-
-    // Track tokens and cost
-    if (msg.tokens) {
-      stats.inputTokens += msg.tokens.input || 0
-      stats.outputTokens += msg.tokens.output || 0
-    }
-    if (msg.cost) {
-      stats.totalCost += msg.cost
-    }
+    lastTimestamp = msg.time.completed || msg.time.created
+    const timestamp = new Date(msg.time.created).toISOString()
 
     // Model change
     if (msg.modelID && msg.modelID !== currentModel) {
       currentModel = msg.modelID
-      output += `${EMOJI.metadata} Model: ${msg.modelID}\n`
+      emit({ type: "model-change", timestamp, model: msg.modelID })
+    }
+
+    // Track tokens and cost
+    if (msg.tokens || msg.cost) {
+      emit(priceUsage({
+        type: "usage",
+        timestamp,
+        inputTokens: msg.tokens?.input || 0,
+        outputTokens: msg.tokens?.output || 0,
+        cacheReadTokens: msg.tokens?.cache?.read || 0,
+        cacheCreationTokens: msg.tokens?.cache?.write || 0,
+        model: msg.modelID,
+        // Estimated from the pricing table when the provider reports none
+        cost: msg.cost || undefined,
+      }, options.pricing))
     }
 
     const msgParts = parts.get(msg.id) || []
@@ -153,106 +63,74 @@ export function formatSession(data: OpenCodeSessionData): string {
 
         const text = part.text?.trim()
         if (text) {
-          output += `${EMOJI.user} ${text}\n`
-          stats.userMessages++
+          emit({ type: "user-message", timestamp, text })
         }
       }
     }
     else if (msg.role === "assistant") {
       // Process parts in order
       for (const part of msgParts) {
+        const partTimestamp = part.time ? new Date(part.time.start).toISOString() : timestamp
+
         if (part.type === "text" && part.text) {
-          output += `${EMOJI.assistant} ${part.text.trim()}\n`
-          stats.assistantMessages++
+          const text = part.text.trim()
+          if (text) {
+            emit({ type: "assistant-text", timestamp: partTimestamp, text })
+          }
+        }
+        else if (part.type === "reasoning" && part.text) {
+          const thinking = thinkingEvent(part.text, partTimestamp, options)
+          if (thinking) {
+            emit(thinking)
+          }
         }
         else if (part.type === "tool" && part.state) {
-          stats.toolCalls++
-          const isError = part.state.metadata?.exit !== 0 && part.state.metadata?.exit !== undefined
-          if (isError) stats.toolErrors++
-
-          const emoji = isError ? EMOJI.toolFailure : EMOJI.toolSuccess
+          // Failed calls have status "error" and an error instead of output;
+          // shell commands that ran but failed only show it in the exit code
+          const exit = part.state.metadata?.exit
+          const isError = part.state.status === "error" || part.state.error !== undefined || (exit !== 0 && exit !== undefined)
           const toolName = part.tool || "unknown"
-          const desc = part.state.title || part.state.metadata?.description || ""
-          const truncDesc = desc.length > 100 ? desc.slice(0, 100) + "..." : desc
-
-          output += `${emoji} ${toolName}: ${truncDesc}\n`
-
-          // Track file operations
-          if (toolName === "read" && part.state.input) {
-            const path = part.state.input.filePath as string
-            if (path) stats.filesRead.add(path)
-          }
-          else if (toolName === "write" && part.state.input) {
-            const path = part.state.input.filePath as string
-            if (path) stats.filesWritten.add(path)
-          }
+          const input = part.state.input || {}
+
+          emit({
+            type: "tool-call",
+            timestamp: part.state.time ? new Date(part.state.time.start).toISOString() : partTimestamp,
+            name: toolName,
+            input,
+            success: !isError,
+            description: part.state.title || part.state.metadata?.description || "",
+            files: fileTouches(toolName, input),
+            output: toolOutput(toolName, part.state.output ?? part.state.error ?? part.state.metadata?.output ?? "", !isError, options),
+          })
         }
       }
     }
   }
 
-  // Summary
-  output += formatSummary(stats, session.time.created)
-
-  return output
-}
-
-function formatSummary(stats: OpenCodeStats, startTime: number): string {
-  const lines = [
-    "",
-    `${EMOJI.metadata} --- Summary ---`,
-  ]
-
-  if (stats.lastTimestamp) {
-    const durationMs = stats.lastTimestamp - startTime
-    const duration = formatDuration(durationMs)
-    if (duration) {
-      lines.push(`${EMOJI.metadata} Duration: ${duration}`)
-    }
+  if (hasContent(stats)) {
+    events.push({
+      type: "session-end",
+      source: "opencode",
+      timestamp: lastTimestamp ? new Date(lastTimestamp).toISOString() : null,
+      started,
+      stats,
+    })
   }
 
-  lines.push(`${EMOJI.metadata} Messages: ${stats.userMessages} user, ${stats.assistantMessages} assistant`)
-  lines.push(`${EMOJI.metadata} Tool calls: ${stats.toolCalls} total, ${stats.toolErrors} failed`)
-
-  if (stats.inputTokens > 0 || stats.outputTokens > 0) {
-    lines.push(`${EMOJI.metadata} Tokens: ${formatTokens(stats.inputTokens)} in, ${formatTokens(stats.outputTokens)} out`)
-  }
-
-  if (stats.totalCost > 0) {
-    lines.push(`${EMOJI.metadata} Cost: $${stats.totalCost.toFixed(4)}`)
-  }
-
-  const filesRead = stats.filesRead.size
-  const filesWritten = stats.filesWritten.size
-  if (filesRead > 0 || filesWritten > 0) {
-    const parts: string[] = []
-    if (filesRead > 0) parts.push(`${filesRead} read`)
-    if (filesWritten > 0) parts.push(`${filesWritten} written`)
-    lines.push(`${EMOJI.metadata} Files: ${parts.join(", ")}`)
-  }
-
-  return lines.join("\n") + "\n"
+  return events
 }
 
-function formatDuration(ms: number): string | null {
-  if (ms < 0 || isNaN(ms)) return null
-
-  const seconds = Math.floor(ms / 1000)
-  const minutes = Math.floor(seconds / 60)
-  const hours = Math.floor(minutes / 60)
+function fileTouches(toolName: string, input: Record<string, unknown>): FileTouch[] | undefined {
+  const path = input.filePath as string | undefined
+  if (!path) return undefined
 
-  if (hours > 0) {
-    const remainingMinutes = minutes % 60
-    return `${hours}h ${remainingMinutes}m`
+  switch (toolName) {
+    case "read":
+      return [{ path, operation: "read" }]
+    case "write":
+      return [{ path, operation: "write" }]
+    case "edit":
+      return [{ path, operation: "edit" }]
   }
-  if (minutes > 0) {
-    return `${minutes}m`
-  }
-  return `${seconds}s`
-}
-
-function formatTokens(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`
-  return String(n)
+  return undefined
 }
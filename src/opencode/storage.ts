@@ -0,0 +1,139 @@
+import { readdir } from "node:fs/promises"
+import { join, basename } from "node:path"
+import type {
+  OpenCodeSession,
+  OpenCodeMessage,
+  OpenCodePart,
+  OpenCodeSessionData,
+} from "./types"
+
+// Files read or directories listed at once. Storage holds one small JSON
+// file per message and part, so loading is dominated by per-file latency.
+const LOAD_CONCURRENCY = 32
+
+// Where an OpenCode storage directory keeps its sessions:
+//
+//   session/<project>/<session>.json
+//   message/<session>/<message>.json
+//   part/<message>/<part>.json
+//
+// Session files sit under per-project directories, so they're all listed
+// once up front instead of searched for each session. Message and part
+// directories are listed when their session is loaded, which means a batch
+// where everything is up to date never reads them.
+export class StorageIndex {
+  private constructor(
+    readonly dir: string,
+    // Session id -> session file
+    private sessionFiles: Map<string, string>,
+    // Sessions that have a message directory
+    private messageSessions: string[]
+  ) {}
+
+  static async build(dir: string): Promise<StorageIndex> {
+    const sessionDir = join(dir, "session")
+    const projectDirs = await listDir(sessionDir)
+    const listings = await mapLimit(projectDirs, LOAD_CONCURRENCY, async (projectDir) => {
+      const projectPath = join(sessionDir, projectDir)
+      return (await listJson(projectPath)).map(file => join(projectPath, file))
+    })
+
+    const sessionFiles = new Map<string, string>()
+    for (const path of listings.flat()) {
+      const id = basename(path, ".json")
+      if (id.startsWith("ses_")) sessionFiles.set(id, path)
+    }
+
+    const messageSessions = (await listDir(join(dir, "message"))).filter(name => name.startsWith("ses_"))
+    return new StorageIndex(dir, sessionFiles, messageSessions)
+  }
+
+  // Sessions with messages, the only ones with anything to convert
+  sessionIds(): string[] {
+    return this.messageSessions
+  }
+
+  messageDir(sessionId: string): string {
+    return join(this.dir, "message", sessionId)
+  }
+
+  // Sessions with messages, newest first, optionally only those started in
+  // a directory or below it
+  async listSessions(directory?: string): Promise<OpenCodeSession[]> {
+    const files = this.messageSessions.flatMap(id => this.sessionFiles.get(id) ?? [])
+    const sessions = await mapLimit(files, LOAD_CONCURRENCY, path => readJson<OpenCodeSession>(path))
+    return sessions
+      .filter((session): session is OpenCodeSession => session !== null)
+      .filter(session => !directory || session.directory === directory || session.directory?.startsWith(directory + "/"))
+      .sort((a, b) => b.time.created - a.time.created)
+  }
+
+  // Session metadata only, enough to decide whether to load the rest
+  async readSession(sessionId: string): Promise<OpenCodeSession | null> {
+    const sessionFile = this.sessionFiles.get(sessionId)
+    return sessionFile ? readJson<OpenCodeSession>(sessionFile) : null
+  }
+
+  // Messages and parts of a session; null when it has no messages
+  async loadSession(session: OpenCodeSession): Promise<OpenCodeSessionData | null> {
+    const messageDir = this.messageDir(session.id)
+    const messageFiles = (await listJson(messageDir)).map(file => join(messageDir, file))
+    const messages = (await mapLimit(messageFiles, LOAD_CONCURRENCY, path => readJson<OpenCodeMessage>(path)))
+      .filter((message): message is OpenCodeMessage => message !== null)
+      // Sort by creation time
+      .sort((a, b) => a.time.created - b.time.created)
+    if (messages.length === 0) return null
+
+    // List every message's part directory, then read all part files in one
+    // bounded pool rather than message by message
+    const partFiles = (await mapLimit(messages, LOAD_CONCURRENCY, async (msg) => {
+      const partDir = join(this.dir, "part", msg.id)
+      return (await listJson(partDir)).map(file => ({ messageId: msg.id, path: join(partDir, file) }))
+    })).flat()
+    const loaded = await mapLimit(partFiles, LOAD_CONCURRENCY, file => readJson<OpenCodePart>(file.path))
+
+    const parts = new Map<string, OpenCodePart[]>()
+    partFiles.forEach(({ messageId }, i) => {
+      const part = loaded[i]
+      if (!part) return
+      const msgParts = parts.get(messageId)
+      if (msgParts) msgParts.push(part)
+      else parts.set(messageId, [part])
+    })
+
+    return { session, messages, parts }
+  }
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  return readdir(dir).catch(() => [])
+}
+
+// File names sort in creation order: OpenCode ids are time-ordered
+async function listJson(dir: string): Promise<string[]> {
+  return (await listDir(dir)).filter(file => file.endsWith(".json")).sort()
+}
+
+// Null for unreadable or malformed files, which are skipped
+async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return await Bun.file(path).json() as T
+  }
+  catch {
+    return null
+  }
+}
+
+// Like Promise.all over items.map(fn), with at most limit calls in flight
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
@@ -62,6 +62,8 @@ export interface OpenCodePart {
     status: string
     input?: Record<string, unknown>
     output?: string
+    // Set instead of output when the call failed
+    error?: string
     title?: string
     metadata?: {
       output?: string
@@ -85,16 +87,3 @@ export interface OpenCodeSessionData {
   messages: OpenCodeMessage[]
   parts: Map<string, OpenCodePart[]>
 }
-
-export interface OpenCodeStats {
-  userMessages: number
-  assistantMessages: number
-  toolCalls: number
-  toolErrors: number
-  inputTokens: number
-  outputTokens: number
-  totalCost: number
-  filesRead: Set<string>
-  filesWritten: Set<string>
-  lastTimestamp: number | null
-}
@@ -1,162 +1,231 @@
+import { join, dirname, basename } from "node:path"
 import type {
   SessionRecord,
   ContentBlock,
-  ToolUseBlock,
   ToolResultBlock,
   PendingTool,
-  SessionMetadata,
-  SessionStats,
+  ParserOptions,
+  SummaryRecord,
+  SystemRecord,
 } from "./types"
-import {
-  formatMetadata,
-  formatUserMessage,
-  formatAssistantText,
-  formatToolCall,
-  formatQueueOperation,
-  formatModelChange,
-  formatSummary,
-} from "./format"
+import type { TranscriptEvent, CompactionEvent, FileTouch, Subagent } from "./events"
+import { emptyStats, recordEvent, hasContent, thinkingEvent, toolOutput } from "./events"
+import { priceUsage } from "./pricing"
+
+const SUBAGENT_TOOLS = new Set(["Task", "Agent"])
+
+interface Sidechain {
+  prompt: string
+  lines: string[]
+}
 
 export class TranscriptParser {
   private pendingTools: Map<string, PendingTool> = new Map()
-  private metadata: SessionMetadata | null = null
-  private metadataEmitted = false
+  private started: string | null = null
   private currentModel: string | null = null
-  private stats: SessionStats = {
-    userMessages: 0,
-    assistantMessages: 0,
-    toolCalls: 0,
-    toolErrors: 0,
-    inputTokens: 0,
-    outputTokens: 0,
-    cacheCreationTokens: 0,
-    cacheReadTokens: 0,
-    filesRead: new Set(),
-    filesWritten: new Set(),
-    filesEdited: new Set(),
-    lastTimestamp: null,
-  }
-
-  parse(line: string): string {
+  private lastTimestamp: string | null = null
+  private stats = emptyStats()
+  // Inline subagent conversations (older logs), keyed by root record uuid
+  private sidechains: Map<string, Sidechain> = new Map()
+  private sidechainRoots: Map<string, string> = new Map()
+  // Main-line records in file order
+  private records: SessionRecord[] = []
+  // Receives the summary record that follows a compact boundary
+  private lastCompaction: CompactionEvent | null = null
+  // Follow mode: session-start has been emitted
+  private startEmitted = false
+
+  constructor(private options: ParserOptions = {}) {}
+
+  parse(line: string): TranscriptEvent[] {
     const trimmed = line.trim()
-    if (!trimmed) return ""
+    if (!trimmed) return []
 
     let record: SessionRecord
     try {
       record = JSON.parse(trimmed)
     }
     catch {
-      return ""
+      return []
     }
 
-    // Capture metadata from first record
-    if (!this.metadata) {
-      this.metadata = {
-        sessionId: record.sessionId,
-        project: record.cwd,
-        started: record.timestamp,
-        version: record.version,
-        gitBranch: record.gitBranch || undefined,
-      }
+    // Track first and last timestamps for duration calculation. Summary
+    // and snapshot records carry none.
+    if (record.timestamp) {
+      this.started ??= record.timestamp
+      this.lastTimestamp = record.timestamp
     }
 
-    let output = ""
-
-    // Emit metadata header before first content
-    if (!this.metadataEmitted && this.metadata) {
-      output += formatMetadata(this.metadata) + "\n"
-      this.metadataEmitted = true
+    // Subagent records are held back until the Task call they belong to completes
+    if (record.isSidechain && !this.options.sidechain) {
+      this.collectSidechain(record, trimmed)
+      return []
     }
 
-    // Track last timestamp for duration calculation
-    this.stats.lastTimestamp = record.timestamp
+    // The rest waits for finalize(), once the conversation tree is known
+    this.records.push(record)
+    if (!this.options.follow) return []
 
+    const events: TranscriptEvent[] = []
+    if (!this.startEmitted) {
+      const start = this.sessionStart()
+      if (start) {
+        events.push(start)
+        this.startEmitted = true
+      }
+    }
+    events.push(...this.record(this.parseRecord(record)))
+    return events
+  }
+
+  private parseRecord(record: SessionRecord): TranscriptEvent[] {
     switch (record.type) {
       case "user":
-        output += this.parseUserRecord(record)
-        break
+        return this.parseUserRecord(record)
       case "assistant":
-        output += this.parseAssistantRecord(record)
-        break
+        return this.parseAssistantRecord(record)
       case "queue-operation":
-        output += this.parseQueueOperation(record)
-        break
+        return this.parseQueueOperation(record)
+      case "system":
+        return this.parseSystemRecord(record)
     }
+    return []
+  }
+
+  // Session metadata from the first records that carry it; the file may
+  // open with summary or snapshot records that have none
+  private sessionStart(): TranscriptEvent | null {
+    const first = this.records.find(r => r.sessionId && r.timestamp)
+    if (!first) return null
+
+    return {
+      type: "session-start",
+      source: "claude",
+      timestamp: first.timestamp,
+      sessionId: first.sessionId,
+      project: this.records.find(r => r.cwd)?.cwd ?? first.cwd,
+      version: this.records.find(r => r.version)?.version,
+      gitBranch: this.records.find(r => r.gitBranch)?.gitBranch || undefined,
+      title: this.title(),
+    }
+  }
+
+  private title(): string | undefined {
+    const summaries = this.records
+      .filter(r => r.type === "summary")
+      .map(r => r as unknown as SummaryRecord)
+    if (summaries.length === 0) return undefined
 
-    return output
+    // Prefer the title of a message in this session over ones carried over
+    // from the session it was resumed from
+    const uuids = new Set(this.records.map(r => r.uuid).filter(Boolean))
+    const own = summaries.filter(s => s.leafUuid && uuids.has(s.leafUuid))
+    return (own.at(-1) ?? summaries.at(-1))!.summary.trim() || undefined
   }
 
-  private parseUserRecord(record: SessionRecord): string {
+  private record(events: TranscriptEvent[]): TranscriptEvent[] {
+    for (const event of events) {
+      recordEvent(this.stats, event)
+    }
+    return events
+  }
+
+  private parseUserRecord(record: SessionRecord): TranscriptEvent[] {
     // Skip meta messages (system injected)
-    if (record.isMeta) return ""
+    if (record.isMeta) return []
+
+    // The summary that replaces the context after compaction belongs to the
+    // compaction marker, not the user
+    if (record.isCompactSummary) {
+      if (this.lastCompaction && this.options.compactSummaries) {
+        const content = record.message.content
+        this.lastCompaction.summary = typeof content === "string"
+          ? content.trim()
+          : content.flatMap(block => block.type === "text" ? [block.text] : []).join("\n").trim()
+      }
+      return []
+    }
 
     const message = record.message
-    if (message.role !== "user") return ""
+    if (message.role !== "user") return []
 
-    let output = ""
-    let hasUserContent = false
+    const timestamp = record.timestamp
+    const events: TranscriptEvent[] = []
 
     // Handle string content
     if (typeof message.content === "string") {
       // Skip command/notification content (XML-like)
-      if (message.content.startsWith("<")) return ""
-      output += formatUserMessage(message.content)
-      hasUserContent = true
+      if (message.content.startsWith("<")) return []
+      const text = message.content.trim()
+      if (text) {
+        events.push({ type: "user-message", timestamp, text })
+      }
     }
     else {
-      // Handle array content
+      // Handle array content; the message counts once however many
+      // text blocks it has
+      let continued = false
       for (const block of message.content) {
         if (block.type === "text") {
           // Skip command/notification content
           if (block.text.startsWith("<")) continue
-          output += formatUserMessage(block.text)
-          hasUserContent = true
+          const text = block.text.trim()
+          if (text) {
+            events.push({ type: "user-message", timestamp, text, continued: continued || undefined })
+            continued = true
+          }
         }
         else if (block.type === "tool_result") {
-          output += this.processToolResult(block as ToolResultBlock)
+          events.push(...this.processToolResult(block as ToolResultBlock, record))
         }
       }
     }
 
-    if (hasUserContent) {
-      this.stats.userMessages++
-    }
-
-    return output
+    return events
   }
 
-  private parseAssistantRecord(record: SessionRecord): string {
+  private parseAssistantRecord(record: SessionRecord): TranscriptEvent[] {
     const message = record.message
-    if (message.role !== "assistant") return ""
+    if (message.role !== "assistant") return []
 
-    let output = ""
+    const timestamp = record.timestamp
+    const events: TranscriptEvent[] = []
 
     // Check for model change
-    const model = (message as { model?: string }).model
+    const model = message.model
     if (model && model !== "<synthetic>" && model !== this.currentModel) {
       this.currentModel = model
-      output += formatModelChange(model)
+      events.push({ type: "model-change", timestamp, model })
     }
 
     // Track token usage
-    const usage = (message as { usage?: {
-      input_tokens?: number
-      output_tokens?: number
-      cache_creation_input_tokens?: number
-      cache_read_input_tokens?: number
-    }}).usage
+    const usage = message.usage
     if (usage) {
-      this.stats.inputTokens += usage.input_tokens || 0
-      this.stats.outputTokens += usage.output_tokens || 0
-      this.stats.cacheCreationTokens += usage.cache_creation_input_tokens || 0
-      this.stats.cacheReadTokens += usage.cache_read_input_tokens || 0
+      events.push(priceUsage({
+        type: "usage",
+        timestamp,
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheReadTokens: usage.cache_read_input_tokens || 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+        model: model && model !== "<synthetic>" ? model : undefined,
+      }, this.options.pricing))
     }
 
-    let hasTextContent = false
+    let continued = false
     for (const block of message.content as ContentBlock[]) {
       if (block.type === "text") {
-        output += formatAssistantText(block.text)
-        hasTextContent = true
+        const text = block.text.trim()
+        if (text) {
+          events.push({ type: "assistant-text", timestamp, text, continued: continued || undefined })
+          continued = true
+        }
+      }
+      else if (block.type === "thinking") {
+        const thinking = thinkingEvent(block.thinking, timestamp, this.options)
+        if (thinking) {
+          events.push(thinking)
+        }
       }
       else if (block.type === "tool_use") {
         this.pendingTools.set(block.id, {
@@ -164,58 +233,287 @@ export class TranscriptParser {
           input: block.input,
         })
       }
-      // Skip thinking blocks
     }
 
-    if (hasTextContent) {
-      this.stats.assistantMessages++
-    }
-
-    return output
+    return events
   }
 
-  private processToolResult(block: ToolResultBlock): string {
+  private processToolResult(block: ToolResultBlock, record: SessionRecord): TranscriptEvent[] {
     const pending = this.pendingTools.get(block.tool_use_id)
-    if (!pending) return ""
+    if (!pending) return []
 
     this.pendingTools.delete(block.tool_use_id)
-    this.stats.toolCalls++
-    if (block.is_error) {
-      this.stats.toolErrors++
-    }
-
-    // Track file operations
-    const filePath = pending.input.file_path as string | undefined
-    if (filePath && !block.is_error) {
-      switch (pending.name) {
-        case "Read":
-          this.stats.filesRead.add(filePath)
-          break
-        case "Write":
-          this.stats.filesWritten.add(filePath)
-          break
-        case "Edit":
-          this.stats.filesEdited.add(filePath)
-          break
+    const success = block.is_error !== true
+
+    return [{
+      type: "tool-call",
+      timestamp: record.timestamp,
+      name: pending.name,
+      input: pending.input,
+      success,
+      files: fileTouches(pending),
+      output: toolOutput(pending.name, resultText(block.content), success, this.options),
+      subagent: SUBAGENT_TOOLS.has(pending.name) ? this.takeSubagent(pending, record) : undefined,
+    }]
+  }
+
+  // The subagent conversation behind a Task result: a separate agent file
+  // named by the result's agentId, or an inline sidechain with the same prompt
+  private takeSubagent(tool: PendingTool, record: SessionRecord): Subagent | undefined {
+    const agentId = typeof record.toolUseResult === "object" ? record.toolUseResult?.agentId : undefined
+    const transcript = agentId ? this.options.subagents?.get(agentId) : undefined
+    if (transcript) {
+      return this.parseSubagent(transcript.split("\n"), agentId)
+    }
+
+    // No match means the Task never spawned one (it failed first); any other
+    // sidechain belongs to a different Task
+    let root: string | undefined
+    for (const [uuid, sidechain] of this.sidechains) {
+      if (sidechain.prompt === tool.input.prompt) {
+        root = uuid
+        break
       }
     }
+    if (!root) return undefined
 
-    return formatToolCall(pending, block.is_error === true)
+    const sidechain = this.sidechains.get(root)!
+    this.sidechains.delete(root)
+    return this.parseSubagent(sidechain.lines, agentId)
   }
 
-  private parseQueueOperation(record: SessionRecord): string {
+  private parseSubagent(lines: string[], agentId: string | undefined): Subagent {
+    // Read as a whole, so its events all come from finalize()
+    const parser = new TranscriptParser({ ...this.options, sidechain: true, follow: false })
+    for (const line of lines) {
+      parser.parse(line)
+    }
+    const events = parser.finalize().filter(event => event.type !== "session-start" && event.type !== "session-end")
+
+    return {
+      agentId,
+      events,
+      stats: parser.stats,
+      started: parser.started,
+      ended: parser.lastTimestamp,
+    }
+  }
+
+  private collectSidechain(record: SessionRecord, line: string): void {
+    const root = (record.parentUuid && this.sidechainRoots.get(record.parentUuid)) || record.uuid
+    this.sidechainRoots.set(record.uuid, root)
+
+    let sidechain = this.sidechains.get(root)
+    if (!sidechain) {
+      const content = record.message?.content
+      const prompt = typeof content === "string"
+        ? content
+        : content?.find(block => block.type === "text")?.text ?? ""
+      sidechain = { prompt, lines: [] }
+      this.sidechains.set(root, sidechain)
+    }
+    sidechain.lines.push(line)
+  }
+
+  private parseQueueOperation(record: SessionRecord): TranscriptEvent[] {
     // Queue operations have content in a different structure
     const content = (record as unknown as { content?: string }).content
-    if (!content) return ""
-    return formatQueueOperation(content)
+    if (!content) return []
+
+    // Extract summary from queue operation content
+    const summaryMatch = content.match(/<summary>([^<]+)<\/summary>/)
+    const text = summaryMatch ? summaryMatch[1] : content.slice(0, 100)
+    return [{ type: "notice", timestamp: record.timestamp, text: text.trim() }]
   }
 
-  finalize(): string {
+  private parseSystemRecord(record: SessionRecord): TranscriptEvent[] {
+    const system = record as unknown as SystemRecord
+
+    if (system.subtype === "compact_boundary") {
+      const event: CompactionEvent = {
+        type: "compaction",
+        timestamp: record.timestamp,
+        trigger: system.compactMetadata?.trigger,
+        preTokens: system.compactMetadata?.preTokens,
+      }
+      this.lastCompaction = event
+      return [event]
+    }
+
+    // Other system records are status chatter; keep only problems
+    if ((system.level === "warning" || system.level === "error") && system.content) {
+      return [{ type: "notice", timestamp: record.timestamp, text: system.content.split("\n")[0] }]
+    }
+    return []
+  }
+
+  finalize(): TranscriptEvent[] {
+    const events = this.options.follow ? [] : this.resolvedEvents()
+
     // Only emit summary if there was actual content
-    if (this.stats.userMessages === 0 && this.stats.assistantMessages === 0) {
-      return ""
+    if (hasContent(this.stats)) {
+      events.push({
+        type: "session-end",
+        source: "claude",
+        timestamp: this.lastTimestamp,
+        started: this.started,
+        stats: this.stats,
+      })
+    }
+    return events
+  }
+
+  // The active conversation, with abandoned branches dropped or nested
+  private resolvedEvents(): TranscriptEvent[] {
+    const events: TranscriptEvent[] = []
+    const start = this.sessionStart()
+    if (start) {
+      events.push(start)
+    }
+    const { active, branches } = resolveBranches(this.records)
+
+    for (const record of this.records) {
+      if (active.has(record)) {
+        events.push(...this.record(this.parseRecord(record)))
+        continue
+      }
+
+      // Abandoned branches are rendered (or skipped) as a whole at their
+      // first record
+      const branch = branches.get(record)
+      if (!branch) continue
+
+      const branchEvents = branch.flatMap(r => this.parseRecord(r))
+      // Tokens spent on an abandoned path were still spent
+      this.record(branchEvents.filter(event => event.type === "usage"))
+      if (!branchEvents.some(event => event.type === "user-message" || event.type === "assistant-text")) {
+        continue
+      }
+      this.stats.abandonedBranches++
+      if (this.options.branches) {
+        events.push({ type: "branch", timestamp: record.timestamp, events: branchEvents })
+      }
     }
-    const startTime = this.metadata?.started || null
-    return formatSummary(this.stats, startTime)
+    return events
+  }
+}
+
+// Split records into the active conversation and abandoned branches.
+// Records form a tree through parentUuid; rewinding, editing a prompt or
+// retrying starts a new child of an earlier record, and the path that ends
+// at the last message is the one the session continued on.
+function resolveBranches(records: SessionRecord[]): {
+  active: Set<SessionRecord>
+  branches: Map<SessionRecord, SessionRecord[]>
+} {
+  const byUuid = new Map<string, SessionRecord>()
+  for (const record of records) {
+    if (record.uuid) byUuid.set(record.uuid, record)
+  }
+  const parentOf = (record: SessionRecord): SessionRecord | undefined => {
+    // Compaction restarts the chain; logicalParentUuid links across it
+    const parent = record.parentUuid ?? record.logicalParentUuid
+    return parent ? byUuid.get(parent) : undefined
   }
+
+  const leaf = records.findLast(r => (r.type === "user" || r.type === "assistant") && r.uuid && !r.isMeta)
+  if (!leaf) {
+    return { active: new Set(records), branches: new Map() }
+  }
+
+  const active = new Set<SessionRecord>()
+  for (let node: SessionRecord | undefined = leaf; node && !active.has(node); node = parentOf(node)) {
+    active.add(node)
+  }
+
+  // Parallel tool results hang off the assistant record that made the
+  // call rather than the chain, so they belong wherever their call does
+  const activeToolIds = new Set<string>()
+  for (const record of active) {
+    if (record.type !== "assistant" || !Array.isArray(record.message?.content)) continue
+    for (const block of record.message.content) {
+      if (block.type === "tool_use") activeToolIds.add(block.id)
+    }
+  }
+
+  const branches = new Map<SessionRecord, SessionRecord[]>()
+  const branchOf = new Map<SessionRecord, SessionRecord>()
+  for (const record of records) {
+    if (active.has(record)) continue
+    if (!record.uuid || isActiveToolResult(record, activeToolIds)) {
+      active.add(record)
+      continue
+    }
+
+    const parent = parentOf(record)
+    const root = parent && branchOf.get(parent)
+    if (root) {
+      branchOf.set(record, root)
+      branches.get(root)!.push(record)
+    }
+    else {
+      branchOf.set(record, record)
+      branches.set(record, [record])
+    }
+  }
+
+  return { active, branches }
+}
+
+function isActiveToolResult(record: SessionRecord, activeToolIds: Set<string>): boolean {
+  const content = record.message?.content
+  return record.type === "user" &&
+    Array.isArray(content) &&
+    content.length > 0 &&
+    content.every(block => block.type === "tool_result" && activeToolIds.has(block.tool_use_id))
+}
+
+// Load the subagent transcripts a session refers to. They sit next to the
+// session file (agent-<id>.jsonl) or in <session>/subagents/.
+export async function loadSubagents(sessionPath: string, content: string): Promise<Map<string, string>> {
+  const subagents = new Map<string, string>()
+  const dir = dirname(sessionPath)
+  const candidates = (id: string) => [
+    join(dir, `agent-${id}.jsonl`),
+    join(dir, basename(sessionPath, ".jsonl"), "subagents", `agent-${id}.jsonl`),
+  ]
+
+  for (const match of content.matchAll(/"agentId":\s*"([\w-]+)"/g)) {
+    const id = match[1]
+    if (subagents.has(id)) continue
+    for (const path of candidates(id)) {
+      const file = Bun.file(path)
+      if (await file.exists()) {
+        subagents.set(id, await file.text())
+        break
+      }
+    }
+  }
+
+  return subagents
+}
+
+function fileTouches(tool: PendingTool): FileTouch[] | undefined {
+  const path = tool.input.file_path as string | undefined
+  if (!path) return undefined
+
+  switch (tool.name) {
+    case "Read":
+      return [{ path, operation: "read" }]
+    case "Write":
+      return [{ path, operation: "write" }]
+    case "Edit":
+      return [{ path, operation: "edit" }]
+  }
+  return undefined
+}
+
+// Result content is a string, or text and image blocks
+function resultText(content: ToolResultBlock["content"]): string {
+  if (typeof content === "string") return content
+  if (!Array.isArray(content)) return ""
+  return content
+    .map(block => block.type === "text" ? block.text : "")
+    .filter(Boolean)
+    .join("\n")
 }
@@ -0,0 +1,97 @@
+import type { UsageEvent } from "./events"
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+}
+
+// Keyed by model id prefix; the longest matching prefix wins, so
+// "claude-opus-4-5-20251101" uses "claude-opus-4-5" over "claude-opus-4"
+export type PricingTable = Record<string, ModelPrice>
+
+// Published list prices, November 2025. Override with --pricing.
+export const DEFAULT_PRICING: PricingTable = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125, cacheWrite: 0 },
+  "gpt-5-mini": { input: 0.25, output: 2, cacheRead: 0.025, cacheWrite: 0 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cacheRead: 0.005, cacheWrite: 0 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 0 },
+  "o3": { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 0 },
+  "o4-mini": { input: 1.1, output: 4.4, cacheRead: 0.275, cacheWrite: 0 },
+}
+
+export class PricingError extends Error {}
+
+// Pricing file: { "<model id prefix>": { "input": 3, "output": 15, ... } }.
+// Entries replace or add to the defaults; a partial entry for a known
+// prefix keeps the default rates it doesn't mention, and a new entry's
+// cache rates default to its input rate.
+export async function loadPricing(path: string): Promise<PricingTable> {
+  let content: unknown
+  try {
+    content = await Bun.file(path).json()
+  }
+  catch (err) {
+    throw new PricingError(`Cannot read ${path}: ${(err as Error).message}`)
+  }
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    throw new PricingError(`${path} must be an object keyed by model id`)
+  }
+
+  const table: PricingTable = { ...DEFAULT_PRICING }
+  for (const [model, value] of Object.entries(content)) {
+    const rates = { ...DEFAULT_PRICING[model], ...(value as Partial<ModelPrice>) }
+    if (typeof rates.input !== "number" || typeof rates.output !== "number") {
+      throw new PricingError(`${model}: "input" and "output" rates are required`)
+    }
+    table[model] = {
+      input: rates.input,
+      output: rates.output,
+      cacheRead: rates.cacheRead ?? rates.input,
+      cacheWrite: rates.cacheWrite ?? rates.input,
+    }
+  }
+  return table
+}
+
+export function modelPrice(model: string, table: PricingTable = DEFAULT_PRICING): ModelPrice | null {
+  let best: string | null = null
+  for (const prefix of Object.keys(table)) {
+    if (model.startsWith(prefix) && (!best || prefix.length > best.length)) {
+      best = prefix
+    }
+  }
+  return best ? table[best] : null
+}
+
+// Fills in cost from the pricing table when the source didn't report one
+export function priceUsage(event: UsageEvent, table: PricingTable = DEFAULT_PRICING): UsageEvent {
+  if (event.cost !== undefined || !event.model) return event
+  const cost = estimateCost(event.model, event, table)
+  return cost === null ? event : { ...event, cost, estimated: true }
+}
+
+// Null for models without a price (unknown or "<synthetic>")
+export function estimateCost(
+  model: string,
+  usage: Pick<UsageEvent, "inputTokens" | "outputTokens" | "cacheReadTokens" | "cacheCreationTokens">,
+  table: PricingTable = DEFAULT_PRICING
+): number | null {
+  const price = modelPrice(model, table)
+  if (!price) return null
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheCreationTokens * price.cacheWrite
+  ) / 1_000_000
+}
@@ -0,0 +1,208 @@
+// Transcript search query language:
+//
+//   JWT refresh              both terms (implicit AND)
+//   JWT OR OAuth             either term
+//   NOT legacy, -legacy      exclude sessions containing a term
+//   "refresh token"          exact phrase
+//   (a OR b) c               grouping
+//   user:deploy              term in a user prompt
+//   assistant:migration      term in an assistant response
+//   tool:Bash                a call to this tool
+//   project:my-repo          project path contains
+//   source:codex             claude, codex or opencode
+//   model:opus               model name contains
+//   approval:never           Codex approval policy starts with
+//   sandbox:danger           Codex sandbox mode starts with
+//   effort:high              Codex reasoning effort starts with
+//
+// Terms match at session level: "JWT refresh" finds sessions mentioning
+// both, not necessarily on the same line.
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "term"; text: string; phrase: boolean; kind?: "user" | "assistant" }
+  | { type: "field"; field: SessionField; value: string }
+
+export type SessionField = "tool" | "project" | "source" | "model" | "approval" | "sandbox" | "effort"
+
+const KIND_FIELDS = new Set(["user", "assistant"])
+const SESSION_FIELDS = new Set<string>(["tool", "project", "source", "model", "approval", "sandbox", "effort"])
+
+type Token =
+  | { type: "word"; value: string; field?: string }
+  | { type: "phrase"; value: string; field?: string }
+  | { type: "lparen" | "rparen" | "and" | "or" | "not" }
+
+export class QueryError extends Error {}
+
+export function parseQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input)
+  if (tokens.length === 0) return null
+
+  let pos = 0
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()]
+    while (tokens[pos]?.type === "or") {
+      pos++
+      children.push(parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: "or", children }
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseUnary()]
+    while (pos < tokens.length && tokens[pos].type !== "or" && tokens[pos].type !== "rparen") {
+      if (tokens[pos].type === "and") pos++
+      children.push(parseUnary())
+    }
+    return children.length === 1 ? children[0] : { type: "and", children }
+  }
+
+  function parseUnary(): QueryNode {
+    if (tokens[pos]?.type === "not") {
+      pos++
+      return { type: "not", child: parseUnary() }
+    }
+    return parsePrimary()
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[pos++]
+    if (!token) {
+      throw new QueryError("Query ends unexpectedly")
+    }
+
+    if (token.type === "lparen") {
+      const node = parseOr()
+      if (tokens[pos]?.type !== "rparen") {
+        throw new QueryError("Missing closing parenthesis")
+      }
+      pos++
+      return node
+    }
+
+    if (token.type === "word" || token.type === "phrase") {
+      return termNode(token.value, token.type === "phrase", token.field)
+    }
+
+    throw new QueryError(`Unexpected ${token.type.toUpperCase()} in query`)
+  }
+
+  const node = parseOr()
+  if (pos < tokens.length) {
+    throw new QueryError("Unbalanced closing parenthesis")
+  }
+  return node
+}
+
+// The keywords array form of search_transcripts: any keyword matches
+export function keywordsQuery(keywords: string[]): QueryNode | null {
+  const children: QueryNode[] = keywords
+    .map(k => k.trim())
+    .filter(Boolean)
+    .map(k => ({ type: "term", text: k, phrase: /\s/.test(k) }))
+  if (children.length === 0) return null
+  return children.length === 1 ? children[0] : { type: "or", children }
+}
+
+// Positive text terms (not under NOT), used to pick which lines to show
+export function positiveTerms(node: QueryNode, negated = false): Extract<QueryNode, { type: "term" }>[] {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(child => positiveTerms(child, negated))
+    case "not":
+      return positiveTerms(node.child, !negated)
+    case "term":
+      return negated ? [] : [node]
+    case "field":
+      return []
+  }
+}
+
+export function positiveTools(node: QueryNode, negated = false): string[] {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(child => positiveTools(child, negated))
+    case "not":
+      return positiveTools(node.child, !negated)
+    case "field":
+      return !negated && node.field === "tool" ? [node.value] : []
+    case "term":
+      return []
+  }
+}
+
+function termNode(value: string, phrase: boolean, field: string | undefined): QueryNode {
+  if (!field) {
+    return { type: "term", text: value, phrase }
+  }
+  if (KIND_FIELDS.has(field)) {
+    return { type: "term", text: value, phrase, kind: field as "user" | "assistant" }
+  }
+  return { type: "field", field: field as SessionField, value }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const c = input[i]
+
+    if (/\s/.test(c)) {
+      i++
+      continue
+    }
+    if (c === "(") {
+      tokens.push({ type: "lparen" })
+      i++
+      continue
+    }
+    if (c === ")") {
+      tokens.push({ type: "rparen" })
+      i++
+      continue
+    }
+    if (c === "-" && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ type: "not" })
+      i++
+      continue
+    }
+
+    // Optional field qualifier: name:value or name:"some phrase"
+    let field: string | undefined
+    const qualifier = input.slice(i).match(/^([a-z]+):(?=\S)/i)
+    if (qualifier && (KIND_FIELDS.has(qualifier[1].toLowerCase()) || SESSION_FIELDS.has(qualifier[1].toLowerCase()))) {
+      field = qualifier[1].toLowerCase()
+      i += qualifier[0].length
+    }
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1)
+      if (end < 0) {
+        throw new QueryError("Unterminated quoted phrase")
+      }
+      const value = input.slice(i + 1, end).trim()
+      i = end + 1
+      if (value) tokens.push({ type: "phrase", value, field })
+      continue
+    }
+
+    let end = i
+    while (end < input.length && !/[\s()]/.test(input[end])) end++
+    const value = input.slice(i, end)
+    i = end
+
+    if (!field && value === "AND") tokens.push({ type: "and" })
+    else if (!field && value === "OR") tokens.push({ type: "or" })
+    else if (!field && value === "NOT") tokens.push({ type: "not" })
+    else tokens.push({ type: "word", value, field })
+  }
+
+  return tokens
+}
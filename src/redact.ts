@@ -0,0 +1,102 @@
+// Redaction of secrets and personal data in rendered transcripts. Runs on
+// renderer output, so every format and source goes through the same rules.
+// Matches become [REDACTED:<rule>]; some built-in rules keep a prefix
+// (the "Authorization: Bearer " in front of a token).
+
+export interface RedactionOptions {
+  // Built-in detectors: API keys, tokens, private keys, emails
+  redact?: boolean
+  // User-defined regular expressions, reported as "custom"
+  redactPatterns?: string[]
+  // Replace home directories (/Users/me, /home/me, $HOME) with ~
+  anonymizeHome?: boolean
+}
+
+interface RedactionRule {
+  name: string
+  pattern: RegExp
+  // Keep the first capture group, which labels the secret that follows
+  keepPrefix?: boolean
+}
+
+// Redaction counts by rule name
+export type RedactionCounts = Map<string, number>
+
+export interface RedactionReport {
+  file: string
+  counts: RedactionCounts
+}
+
+// Order matters: a match is replaced before later rules see the text
+const DETECTORS: RedactionRule[] = [
+  { name: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: "authorization", pattern: /(\bAuthorization:\s*(?:(?:Bearer|Basic|Token)\s+)?)[^\s"'\\]+/gi, keepPrefix: true },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "aws-secret-key", pattern: /(aws_secret_access_key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi, keepPrefix: true },
+  { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  // Not followed by ":" so git@github.com:org/repo remotes survive
+  { name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b(?!:)/g },
+]
+
+const HOME_PATH = /\/(?:Users|home)\/[^/\s"'\\:]+/g
+
+export class Redactor {
+  private constructor(private rules: RedactionRule[], private home: RegExp | null) {}
+
+  // Undefined when nothing is enabled. Throws SyntaxError for an invalid pattern.
+  static create(options: RedactionOptions): Redactor | undefined {
+    const rules = options.redact ? [...DETECTORS] : []
+    for (const pattern of options.redactPatterns ?? []) {
+      rules.push({ name: "custom", pattern: new RegExp(pattern, "g") })
+    }
+    const home = options.anonymizeHome ? homePattern() : null
+    return rules.length > 0 || home ? new Redactor(rules, home) : undefined
+  }
+
+  // Adds what was replaced to counts; home paths aren't counted
+  redact(text: string, counts?: RedactionCounts): string {
+    let result = text
+    for (const rule of this.rules) {
+      result = result.replace(rule.pattern, (match: string, group: unknown) => {
+        if (!match) return match
+        counts?.set(rule.name, (counts.get(rule.name) ?? 0) + 1)
+        const prefix = rule.keepPrefix && typeof group === "string" ? group : ""
+        return `${prefix}[REDACTED:${rule.name}]`
+      })
+    }
+    return this.home ? result.replace(this.home, "~") : result
+  }
+}
+
+function homePattern(): RegExp {
+  const home = process.env.HOME?.replace(/\/+$/, "")
+  if (!home || /^\/(?:Users|home)\//.test(home)) return HOME_PATH
+  // A home outside /Users and /home, such as /root
+  const escaped = home.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`${HOME_PATH.source}|${escaped}(?=[/\\s"'\\\\]|$)`, "g")
+}
+
+export function totalRedactions(counts: RedactionCounts): number {
+  let total = 0
+  for (const count of counts.values()) total += count
+  return total
+}
+
+// "3 (2 email, 1 github-token)"
+export function formatRedactionCounts(counts: RedactionCounts): string {
+  const rules = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  return `${totalRedactions(counts)} (${rules.map(([name, count]) => `${count} ${name}`).join(", ")})`
+}
+
+// Batch summary: total, then one line per file that had redactions
+export function logRedactions(reports: RedactionReport[]): void {
+  const redacted = reports.filter(report => report.counts.size > 0)
+  const total = redacted.reduce((sum, report) => sum + totalRedactions(report.counts), 0)
+  console.error(`  Redactions: ${total} in ${redacted.length} ${redacted.length === 1 ? "file" : "files"}`)
+  for (const report of redacted) {
+    console.error(`    ${report.file}: ${formatRedactionCounts(report.counts)}`)
+  }
+}
@@ -0,0 +1,53 @@
+import type { Renderer, OutputLimit } from "./events"
+import { TextRenderer } from "./format"
+import { JsonlRenderer } from "./jsonl"
+import { MarkdownRenderer } from "./markdown"
+
+export const OUTPUT_FORMATS = ["text", "jsonl", "markdown"] as const
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number]
+
+export function parseOutputFormat(value: string | undefined): OutputFormat | null {
+  const format = value ?? "text"
+  return (OUTPUT_FORMATS as readonly string[]).includes(format) ? format as OutputFormat : null
+}
+
+// --tool-output-lines values: "head:tail" for every tool, or "Tool=head:tail"
+export function parseOutputLimits(values: string[] | undefined): Record<string, OutputLimit> | null {
+  const limits: Record<string, OutputLimit> = {}
+  for (const value of values ?? []) {
+    const match = value.match(/^(?:([^=]+)=)?(\d+):(\d+)$/)
+    if (!match) return null
+    limits[match[1] ?? "*"] = { head: parseInt(match[2]), tail: parseInt(match[3]) }
+  }
+  return limits
+}
+
+// --thinking-limit value: a positive number of characters. Undefined when
+// not given, null when invalid.
+export function parseThinkingLimit(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined
+  return /^\d+$/.test(value) && parseInt(value) > 0 ? parseInt(value) : null
+}
+
+export function createRenderer(format: OutputFormat = "text"): Renderer {
+  switch (format) {
+    case "text":
+      return new TextRenderer()
+    case "jsonl":
+      return new JsonlRenderer()
+    case "markdown":
+      return new MarkdownRenderer()
+  }
+}
+
+export function fileExtension(format: OutputFormat = "text"): string {
+  switch (format) {
+    case "text":
+      return "txt"
+    case "jsonl":
+      return "jsonl"
+    case "markdown":
+      return "md"
+  }
+}
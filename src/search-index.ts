@@ -0,0 +1,757 @@
+import { Database } from "bun:sqlite"
+import { readdir, stat } from "node:fs/promises"
+import { join, basename } from "node:path"
+import type { TranscriptEntry } from "./transcript"
+import type { QueryNode } from "./query"
+import type { SettingName } from "./events"
+import { SETTING_NAMES } from "./events"
+import { positiveTerms, positiveTools } from "./query"
+import {
+  parseTranscriptText,
+  transcriptSource,
+  formatEntry,
+  entryFiles,
+  parseTokenValue,
+  parseDuration,
+  parseSettings,
+} from "./transcript"
+
+export const INDEX_FILENAME = ".transcripts.db"
+
+// Bump when the schema changes; older indexes are rebuilt from scratch
+const SCHEMA_VERSION = 5
+
+// Hits in user prompts say more about what a session was for
+const USER_PROMPT_BOOST = 2
+
+export interface SessionFilter {
+  since?: string
+  until?: string
+  source?: string
+  project?: string
+  model?: string
+  branch?: string
+  // Any turn ran with a value starting with this (Codex)
+  approval?: string
+  sandbox?: string
+  effort?: string
+  limit?: number
+}
+
+export interface IndexQuery extends SessionFilter {
+  query: QueryNode
+  // Applies to terms without a user: or assistant: qualifier
+  kind?: "user" | "assistant"
+  perSession?: number
+  contextLines?: number
+  // "relevance" (default) ranks sessions by summed BM25 score of their hits
+  sort?: "relevance" | "date"
+  // Halve a session's score for every this many days of age (default: no decay)
+  recencyHalfLife?: number
+  userBoost?: number
+}
+
+export interface SessionInfo {
+  path: string
+  date: string
+  source: string | null
+  sessionId: string | null
+  project: string | null
+  branch: string | null
+  title: string | null
+  prompt: string | null
+  models: string[]
+  // Turn settings used, as "name=value" (Codex)
+  settings: string[]
+  started: string | null
+  durationMinutes: number | null
+  userMessages: number
+  assistantMessages: number
+  toolCalls: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface IndexMatch {
+  file: string
+  date: string
+  // Number of matching entries in the session
+  hits: number
+  matches: MatchLine[]
+}
+
+export interface MatchLine {
+  line: number
+  text: string
+}
+
+export interface FileHistoryQuery {
+  path: string
+  since?: string
+  project?: string
+  limit?: number
+}
+
+export interface FileTouchInfo {
+  line: number
+  path: string
+  operation: string
+  tool: string
+  success: boolean
+  text: string
+  prompt: string | null
+}
+
+export interface FileHistorySession {
+  session: SessionInfo
+  touches: FileTouchInfo[]
+}
+
+export interface SyncResult {
+  indexed: number
+  removed: number
+  total: number
+}
+
+interface SessionRow {
+  id: number
+  path: string
+  date: string
+}
+
+interface SessionRecordRow {
+  path: string
+  date: string
+  source: string | null
+  session_id: string | null
+  project: string | null
+  branch: string | null
+  title: string | null
+  prompt: string | null
+  models: string
+  settings: string
+  started: string | null
+  duration_minutes: number | null
+  user_messages: number
+  assistant_messages: number
+  tool_calls: number
+  input_tokens: number
+  output_tokens: number
+}
+
+interface EntryRow {
+  id: number
+  session: number
+  line: number
+  kind: TranscriptEntry["kind"]
+  tool: string | null
+  success: number | null
+  text: string
+}
+
+export class TranscriptIndex {
+  private db: Database
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true })
+    this.db.run("PRAGMA journal_mode = WAL")
+    this.db.run("PRAGMA busy_timeout = 5000")
+    this.db.run("PRAGMA foreign_keys = ON")
+    this.migrate()
+  }
+
+  static open(transcriptsDir: string): TranscriptIndex {
+    return new TranscriptIndex(join(transcriptsDir, INDEX_FILENAME))
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  // Bring the index in line with the .txt files under dir, re-reading only
+  // files whose mtime changed since they were last indexed
+  async sync(dir: string): Promise<SyncResult> {
+    const files = await findTxtFiles(dir)
+    const known = new Map<string, number>()
+    for (const row of this.db.query("SELECT path, mtime FROM sessions").all() as { path: string; mtime: number }[]) {
+      known.set(row.path, row.mtime)
+    }
+
+    let indexed = 0
+    for (const [path, mtime] of files) {
+      if (known.get(path) === mtime) continue
+      const content = await Bun.file(path).text()
+      this.indexFile(path, mtime, content)
+      indexed++
+    }
+
+    let removed = 0
+    const remove = this.db.prepare("DELETE FROM sessions WHERE path = ?")
+    for (const path of known.keys()) {
+      if (!files.has(path)) {
+        remove.run(path)
+        removed++
+      }
+    }
+
+    return { indexed, removed, total: files.size }
+  }
+
+  search(query: IndexQuery): IndexMatch[] {
+    const { limit = 20, perSession = 3, contextLines = 2, sort = "relevance" } = query
+    const userBoost = query.userBoost ?? USER_PROMPT_BOOST
+    const params: Record<string, string | number> = {}
+    const conditions = [compileQuery(query.query, query.kind, params), ...sessionConditions(query, params)]
+
+    const rows = this.db.query(`
+      SELECT h.id, h.session, h.line, h.kind, h.score, s.path, s.date
+      FROM (${hitQuery(query.query, query.kind, params)}) h
+      JOIN sessions s ON s.id = h.session
+      WHERE ${conditions.join(" AND ")}
+    `).all(params) as (Pick<EntryRow, "id" | "session" | "line" | "kind"> & Omit<SessionRow, "id"> & { score: number })[]
+
+    // Sum entry scores per session; an entry hit by several terms counts once
+    const sessions = new Map<number, { path: string; date: string; score: number; hits: Map<number, { line: number; score: number }> }>()
+    for (const row of rows) {
+      let session = sessions.get(row.session)
+      if (!session) {
+        session = { path: row.path, date: row.date, score: 0, hits: new Map() }
+        sessions.set(row.session, session)
+      }
+      const score = row.kind === "user" ? row.score * userBoost : row.score
+      const previous = session.hits.get(row.id)
+      if (previous && previous.score >= score) continue
+      session.score += score - (previous?.score ?? 0)
+      session.hits.set(row.id, { line: row.line, score })
+    }
+
+    if (query.recencyHalfLife) {
+      const now = Date.now()
+      for (const session of sessions.values()) {
+        const ageDays = Math.max(0, (now - Date.parse(session.date)) / 86_400_000)
+        session.score *= Math.pow(0.5, ageDays / query.recencyHalfLife)
+      }
+    }
+
+    const byDate = (a: { date: string; path: string }, b: { date: string; path: string }) =>
+      b.date.localeCompare(a.date) || b.path.localeCompare(a.path)
+    const ranked = [...sessions.entries()]
+      .sort(([, a], [, b]) => (sort === "relevance" ? b.score - a.score : 0) || byDate(a, b))
+      .slice(0, limit)
+
+    const context = this.db.prepare(
+      "SELECT * FROM entries WHERE session = ? AND line BETWEEN ? AND ? ORDER BY line"
+    )
+
+    const results: IndexMatch[] = []
+    for (const [id, session] of ranked) {
+      // Show the best-scoring hits, in transcript order
+      const lines = [...session.hits.values()]
+        .sort((a, b) => b.score - a.score || a.line - b.line)
+        .slice(0, perSession)
+        .map(hit => hit.line)
+        .sort((a, b) => a - b)
+
+      const seen = new Set<number>()
+      const matches: MatchLine[] = []
+      for (const line of lines) {
+        for (const entry of context.all(id, line - contextLines, line + contextLines) as EntryRow[]) {
+          if (seen.has(entry.id)) continue
+          seen.add(entry.id)
+          matches.push({ line: entry.line, text: formatEntry(toEntry(entry)) })
+        }
+      }
+      results.push({ file: session.path, date: session.date, hits: session.hits.size, matches })
+    }
+
+    return results
+  }
+
+  listSessions(filter: SessionFilter): SessionInfo[] {
+    const params: Record<string, string | number> = { $limit: filter.limit ?? 50 }
+    const conditions = sessionConditions(filter, params)
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+
+    const rows = this.db.query(`
+      SELECT * FROM sessions s ${where}
+      ORDER BY s.date DESC, s.path DESC
+      LIMIT $limit
+    `).all(params) as SessionRecordRow[]
+
+    return rows.map(toSessionInfo)
+  }
+
+  // Every session whose tool calls touched a path matching query.path: an
+  // exact path, a path suffix (src/auth/session.ts) or a glob (**/session.ts)
+  fileHistory(query: FileHistoryQuery): FileHistorySession[] {
+    const matcher = pathMatcher(query.path)
+    const params: Record<string, string | number> = { $literal: "%" + escapeLike(literalPart(query.path)) + "%" }
+    const conditions = ["t.path LIKE $literal ESCAPE '\\'", ...sessionConditions({ since: query.since, project: query.project }, params)]
+
+    const rows = this.db.query(`
+      SELECT t.session AS session_row, t.path AS touch_path, t.operation, t.prompt,
+             e.line, e.tool, e.success, e.text, s.*
+      FROM file_touches t
+      JOIN entries e ON e.id = t.entry
+      JOIN sessions s ON s.id = t.session
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY s.date DESC, s.path DESC, e.line
+    `).all(params) as (SessionRecordRow & {
+      session_row: number
+      touch_path: string
+      operation: string
+      prompt: string | null
+      line: number
+      tool: string
+      success: number
+      text: string
+    })[]
+
+    const limit = query.limit ?? 20
+    const sessions = new Map<number, FileHistorySession>()
+    for (const row of rows) {
+      if (!matcher(row.touch_path)) continue
+      let session = sessions.get(row.session_row)
+      if (!session) {
+        if (sessions.size >= limit) break
+        session = { session: toSessionInfo(row), touches: [] }
+        sessions.set(row.session_row, session)
+      }
+      session.touches.push({
+        line: row.line,
+        path: row.touch_path,
+        operation: row.operation,
+        tool: row.tool,
+        success: row.success === 1,
+        text: row.text,
+        prompt: row.prompt,
+      })
+    }
+
+    return [...sessions.values()]
+  }
+
+  // Resolve a session id (or id prefix, or transcript file name) to the
+  // newest matching transcript path
+  findSessionPath(sessionId: string, source?: string): string | null {
+    const row = this.db.query(`
+      SELECT path FROM sessions
+      WHERE (session_id = $id OR session_id LIKE $prefix ESCAPE '\\' OR path LIKE $name ESCAPE '\\')
+        AND ($source IS NULL OR source = $source)
+      ORDER BY session_id = $id DESC, date DESC
+      LIMIT 1
+    `).get({
+      $id: sessionId,
+      $prefix: escapeLike(sessionId) + "%",
+      $name: "%/" + escapeLike(sessionId.replace(/\.txt$/, "")) + ".txt",
+      $source: source ?? null,
+    }) as { path: string } | null
+    return row?.path ?? null
+  }
+
+  private indexFile(path: string, mtime: number, content: string): void {
+    const doc = parseTranscriptText(content)
+    const models = doc.entries
+      .filter(e => e.kind === "metadata" && e.text.startsWith("Model: "))
+      .map(e => e.text.slice("Model: ".length))
+    // Older Codex transcripts name the model only in the summary
+    if (doc.summary.Model) models.push(doc.summary.Model)
+    const settings = doc.entries
+      .filter(e => e.kind === "metadata" && e.text.startsWith("Settings: "))
+      .flatMap(e => parseSettings(e.text.slice("Settings: ".length)))
+    const name = basename(path, ".txt")
+    const { summary } = doc
+    const prompt = doc.entries.find(e => e.kind === "user")?.text.split("\n")[0] ?? null
+    const messages = summary.Messages?.match(/(\d+) user, (\d+) assistant/)
+    // Codex transcripts say "Function calls"
+    const toolCalls = (summary["Tool calls"] ?? summary["Function calls"])?.match(/(\d+) total/)
+    const tokens = summary.Tokens?.match(/([\d.]+[KM]?) in, ([\d.]+[KM]?) out/)
+
+    const write = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM sessions WHERE path = ?").run(path)
+      const session = this.db.prepare(`
+        INSERT INTO sessions (
+          path, mtime, source, session_id, project, branch, title, prompt, models, settings, started, date,
+          duration_minutes, user_messages, assistant_messages, tool_calls, input_tokens, output_tokens
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        path,
+        mtime,
+        transcriptSource(path),
+        doc.header.Session ?? null,
+        doc.header.Project ?? null,
+        doc.header.Branch ?? null,
+        doc.header.Title ?? null,
+        prompt ? prompt.slice(0, 200) : null,
+        [...new Set(models)].join(" "),
+        [...new Set(settings)].join(" "),
+        doc.header.Started ?? null,
+        // File names start with date like "2025-01-15T..."
+        name.slice(0, 10),
+        summary.Duration ? parseDuration(summary.Duration) : null,
+        messages ? parseInt(messages[1]) : 0,
+        messages ? parseInt(messages[2]) : 0,
+        toolCalls ? parseInt(toolCalls[1]) : 0,
+        tokens ? parseTokenValue(tokens[1]) : 0,
+        tokens ? parseTokenValue(tokens[2]) : 0,
+      )
+
+      const insert = this.db.prepare(
+        "INSERT INTO entries (session, line, kind, tool, success, text) VALUES (?, ?, ?, ?, ?, ?)"
+      )
+      const insertTouch = this.db.prepare(
+        "INSERT INTO file_touches (session, entry, path, operation, prompt) VALUES (?, ?, ?, ?, ?)"
+      )
+
+      // Remember the latest user prompt so each file touch knows why it happened
+      let lastPrompt: string | null = null
+      for (const entry of doc.entries) {
+        const row = insert.run(
+          session.lastInsertRowid,
+          entry.line,
+          entry.kind,
+          entry.tool ?? null,
+          entry.success === undefined ? null : entry.success ? 1 : 0,
+          entry.text,
+        )
+        if (entry.kind === "user") {
+          lastPrompt = entry.text.split("\n")[0].slice(0, 300)
+        }
+        for (const file of entryFiles(entry)) {
+          insertTouch.run(session.lastInsertRowid, row.lastInsertRowid, file.path, file.operation, lastPrompt)
+        }
+      }
+    })
+    write()
+  }
+
+  private migrate(): void {
+    const { user_version } = this.db.query("PRAGMA user_version").get() as { user_version: number }
+    if (user_version === SCHEMA_VERSION) return
+
+    this.db.run("DROP TABLE IF EXISTS file_touches")
+    this.db.run("DROP TABLE IF EXISTS entries_fts")
+    this.db.run("DROP TABLE IF EXISTS entries")
+    this.db.run("DROP TABLE IF EXISTS sessions")
+
+    this.db.run(`
+      CREATE TABLE sessions (
+        id INTEGER PRIMARY KEY,
+        path TEXT NOT NULL UNIQUE,
+        mtime REAL NOT NULL,
+        source TEXT,
+        session_id TEXT,
+        project TEXT,
+        branch TEXT,
+        title TEXT,
+        prompt TEXT,
+        models TEXT NOT NULL DEFAULT '',
+        settings TEXT NOT NULL DEFAULT '',
+        started TEXT,
+        date TEXT NOT NULL,
+        duration_minutes REAL,
+        user_messages INTEGER NOT NULL DEFAULT 0,
+        assistant_messages INTEGER NOT NULL DEFAULT 0,
+        tool_calls INTEGER NOT NULL DEFAULT 0,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+    this.db.run(`
+      CREATE TABLE entries (
+        id INTEGER PRIMARY KEY,
+        session INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        line INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        tool TEXT,
+        success INTEGER,
+        text TEXT NOT NULL
+      )
+    `)
+    this.db.run(`
+      CREATE TABLE file_touches (
+        session INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        entry INTEGER NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+        path TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        prompt TEXT
+      )
+    `)
+    this.db.run("CREATE INDEX entries_session ON entries(session, line)")
+    this.db.run("CREATE INDEX file_touches_session ON file_touches(session)")
+    this.db.run("CREATE INDEX sessions_date ON sessions(date)")
+    this.db.run(`
+      CREATE VIRTUAL TABLE entries_fts USING fts5(
+        tool, text, content='entries', content_rowid='id'
+      )
+    `)
+
+    // Keep the external-content FTS table in step with entries
+    this.db.run(`
+      CREATE TRIGGER entries_ai AFTER INSERT ON entries BEGIN
+        INSERT INTO entries_fts(rowid, tool, text) VALUES (new.id, new.tool, new.text);
+      END
+    `)
+    this.db.run(`
+      CREATE TRIGGER entries_ad AFTER DELETE ON entries BEGIN
+        INSERT INTO entries_fts(entries_fts, rowid, tool, text) VALUES ('delete', old.id, old.tool, old.text);
+      END
+    `)
+
+    this.db.run(`PRAGMA user_version = ${SCHEMA_VERSION}`)
+  }
+}
+
+// Incrementally update the index stored alongside a transcripts directory
+export async function syncIndex(transcriptsDir: string): Promise<SyncResult> {
+  const index = TranscriptIndex.open(transcriptsDir)
+  try {
+    return await index.sync(transcriptsDir)
+  }
+  finally {
+    index.close()
+  }
+}
+
+async function findTxtFiles(dir: string): Promise<Map<string, number>> {
+  const results = new Map<string, number>()
+
+  async function walk(current: string): Promise<void> {
+    let entries
+    try {
+      entries = await readdir(current, { withFileTypes: true })
+    }
+    catch {
+      return
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(current, entry.name)
+      if (entry.isDirectory()) {
+        await walk(fullPath)
+      }
+      else if (entry.name.endsWith(".txt")) {
+        const info = await stat(fullPath)
+        results.set(fullPath, info.mtimeMs)
+      }
+    }
+  }
+
+  await walk(dir)
+  return results
+}
+
+function sessionConditions(filter: SessionFilter, params: Record<string, string | number>): string[] {
+  const conditions: string[] = []
+
+  if (filter.since) {
+    conditions.push("s.date >= $since")
+    params.$since = filter.since
+  }
+  if (filter.until) {
+    conditions.push("s.date <= $until")
+    params.$until = filter.until
+  }
+  if (filter.source) {
+    conditions.push("s.source = $source")
+    params.$source = filter.source
+  }
+  if (filter.project) {
+    conditions.push("s.project LIKE $project ESCAPE '\\'")
+    params.$project = escapeLike(filter.project) + "%"
+  }
+  if (filter.model) {
+    conditions.push("s.models LIKE $model ESCAPE '\\'")
+    params.$model = "%" + escapeLike(filter.model) + "%"
+  }
+  if (filter.branch) {
+    conditions.push("s.branch = $branch")
+    params.$branch = filter.branch
+  }
+  for (const name of SETTING_NAMES) {
+    const value = filter[name]
+    if (value) conditions.push(settingCondition(name, value, params))
+  }
+
+  return conditions
+}
+
+function toSessionInfo(row: SessionRecordRow): SessionInfo {
+  return {
+    path: row.path,
+    date: row.date,
+    source: row.source,
+    sessionId: row.session_id,
+    project: row.project,
+    branch: row.branch,
+    title: row.title,
+    prompt: row.prompt,
+    models: row.models ? row.models.split(" ") : [],
+    settings: row.settings ? row.settings.split(" ") : [],
+    started: row.started,
+    durationMinutes: row.duration_minutes,
+    userMessages: row.user_messages,
+    assistantMessages: row.assistant_messages,
+    toolCalls: row.tool_calls,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+  }
+}
+
+function pathMatcher(pattern: string): (path: string) => boolean {
+  const query = pattern.replace(/^\.\//, "")
+
+  if (/[*?[]/.test(query)) {
+    const regex = globToRegex(query)
+    // Globs match the whole path or any trailing run of its segments
+    return (path) => {
+      const segments = path.replace(/^\.\//, "").split("/")
+      for (let i = 0; i < segments.length; i++) {
+        if (regex.test(segments.slice(i).join("/"))) return true
+      }
+      return false
+    }
+  }
+
+  // Either side may be relative (shell commands), so compare by suffix
+  return (path) => {
+    const candidate = path.replace(/^\.\//, "")
+    return candidate === query || candidate.endsWith("/" + query) || query.endsWith("/" + candidate)
+  }
+}
+
+function globToRegex(glob: string): RegExp {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*"
+      i += glob[i + 2] === "/" ? 2 : 1
+    }
+    else if (c === "*") source += "[^/]*"
+    else if (c === "?") source += "[^/]"
+    else if (c === "[") {
+      const end = glob.indexOf("]", i)
+      if (end < 0) { source += "\\["; continue }
+      source += glob.slice(i, end + 1)
+      i = end
+    }
+    else source += c.replace(/[.+^${}()|\\]/g, "\\$&")
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function literalPart(pattern: string): string {
+  // Longest glob-free run, used to narrow candidates in SQL. Relative
+  // touches may only contain the file name, so use the last segment.
+  const segment = pattern.split("/").filter(Boolean).pop() ?? pattern
+  const chunks = segment.split(/[*?[\]]+/)
+  return chunks.reduce((a, b) => (b.length > a.length ? b : a), "")
+}
+
+function toEntry(row: EntryRow): TranscriptEntry {
+  return {
+    kind: row.kind,
+    text: row.text,
+    line: row.line,
+    tool: row.tool ?? undefined,
+    success: row.success === null ? undefined : row.success === 1,
+  }
+}
+
+// Translate a parsed query into a condition on sessions s. Text terms are
+// looked up once each through FTS, so "a b" means both appear somewhere in
+// the session rather than on the same line.
+function compileQuery(node: QueryNode, kind: IndexQuery["kind"], params: Record<string, string | number>): string {
+  const param = (value: string): string => bind(params, value)
+
+  switch (node.type) {
+    case "and":
+    case "or":
+      return `(${node.children.map(child => compileQuery(child, kind, params)).join(` ${node.type.toUpperCase()} `)})`
+    case "not":
+      return `NOT ${compileQuery(node.child, kind, params)}`
+    case "term": {
+      const termKind = node.kind ?? kind
+      const kindCondition = termKind ? ` AND e.kind = ${param(termKind)}` : ""
+      return `s.id IN (
+        SELECT e.session FROM entries_fts JOIN entries e ON e.id = entries_fts.rowid
+        WHERE entries_fts MATCH ${param(ftsTerm(node))}${kindCondition}
+      )`
+    }
+    case "field":
+      switch (node.field) {
+        case "tool":
+          return `s.id IN (SELECT session FROM entries WHERE kind = 'tool' AND tool = ${param(node.value)} COLLATE NOCASE)`
+        case "project":
+          return `s.project LIKE ${param("%" + escapeLike(node.value) + "%")} ESCAPE '\\'`
+        case "source":
+          return `s.source = ${param(node.value.toLowerCase())}`
+        case "model":
+          return `s.models LIKE ${param("%" + escapeLike(node.value) + "%")} ESCAPE '\\'`
+        case "approval":
+        case "sandbox":
+        case "effort":
+          return settingCondition(node.field, node.value, params)
+      }
+  }
+}
+
+// Entries of a session that count as hits, with a relevance score: those
+// matched by a positive text term (BM25) or tool qualifier, or the user
+// prompts when the query has neither
+function hitQuery(node: QueryNode, kind: IndexQuery["kind"], params: Record<string, string | number>): string {
+  const param = (value: string): string => bind(params, value)
+
+  const byKind = new Map<string, string[]>()
+  for (const term of positiveTerms(node)) {
+    const termKind = term.kind ?? kind ?? ""
+    byKind.set(termKind, [...byKind.get(termKind) ?? [], ftsTerm(term)])
+  }
+
+  const selects: string[] = []
+  for (const [termKind, terms] of byKind) {
+    // bm25() is lower for better matches
+    selects.push(`
+      SELECT e.id, e.session, e.line, e.kind, -bm25(entries_fts) AS score
+      FROM entries_fts JOIN entries e ON e.id = entries_fts.rowid
+      WHERE entries_fts MATCH ${param(terms.join(" OR "))}${termKind ? ` AND e.kind = ${param(termKind)}` : ""}
+    `)
+  }
+  for (const tool of positiveTools(node)) {
+    selects.push(`
+      SELECT id, session, line, kind, 0 AS score FROM entries
+      WHERE kind = 'tool' AND tool = ${param(tool)} COLLATE NOCASE
+    `)
+  }
+  if (selects.length === 0) {
+    selects.push("SELECT id, session, line, kind, 0 AS score FROM entries WHERE kind = 'user'")
+  }
+
+  return selects.join(" UNION ALL ")
+}
+
+// Settings are stored as space-separated "name=value" pairs
+function settingCondition(name: SettingName, value: string, params: Record<string, string | number>): string {
+  const pattern = `${name}=${escapeLike(value)}%`
+  return `(s.settings LIKE ${bind(params, pattern)} ESCAPE '\\' OR s.settings LIKE ${bind(params, "% " + pattern)} ESCAPE '\\')`
+}
+
+function bind(params: Record<string, string | number>, value: string): string {
+  const name = `$p${Object.keys(params).length}`
+  params[name] = value
+  return name
+}
+
+function ftsTerm(term: Extract<QueryNode, { type: "term" }>): string {
+  // Quote everything so punctuation can't break the FTS syntax; single
+  // words also match as prefixes
+  const quoted = `"${term.text.replace(/"/g, '""')}"`
+  return term.phrase ? quoted : `${quoted}*`
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&")
+}
@@ -0,0 +1,123 @@
+import { parseArgs } from "node:util"
+import type { SearchEngine } from "./transcript-search"
+import { searchTranscripts, formatResults, TRANSCRIPTS_DIR, SEARCH_ENGINES } from "./transcript-search"
+import { QueryError } from "./query"
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      dir: { type: "string", short: "d" },
+      days: { type: "string" },
+      limit: { type: "string", short: "n" },
+      context: { type: "string", short: "C" },
+      type: { type: "string" },
+      sort: { type: "string" },
+      "half-life": { type: "string" },
+      engine: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    printUsage()
+    process.exit(0)
+  }
+
+  const query = positionals.join(" ")
+  if (!query.trim()) {
+    console.error("Search requires a query")
+    printUsage()
+    process.exit(1)
+  }
+
+  const messageType = values.type ?? "all"
+  if (messageType !== "user" && messageType !== "assistant" && messageType !== "all") {
+    console.error(`Unknown --type: ${messageType}`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const sort = values.sort ?? "relevance"
+  if (sort !== "relevance" && sort !== "date") {
+    console.error(`Unknown --sort: ${sort}`)
+    printUsage()
+    process.exit(1)
+  }
+
+  const engine = values.engine ?? "auto"
+  if (!SEARCH_ENGINES.includes(engine as SearchEngine)) {
+    console.error(`Unknown --engine: ${engine}`)
+    printUsage()
+    process.exit(1)
+  }
+
+  try {
+    const response = await searchTranscripts({
+      query,
+      dir: values.dir ?? TRANSCRIPTS_DIR,
+      days: values.days ? parseInt(values.days) : undefined,
+      limit: values.limit ? parseInt(values.limit) : undefined,
+      context_lines: values.context ? parseInt(values.context) : undefined,
+      message_type: messageType,
+      sort,
+      recency_half_life: values["half-life"] ? parseFloat(values["half-life"]) : undefined,
+      engine: engine as SearchEngine,
+    })
+    console.log(formatResults(response))
+  }
+  catch (err) {
+    if (!(err instanceof Error)) throw err
+    // Malformed query, or an explicitly requested engine is unavailable
+    console.error(err instanceof QueryError ? `Invalid query: ${err.message}` : err.message)
+    process.exit(1)
+  }
+}
+
+function printUsage(): void {
+  console.log(`
+Search the transcripts archive from the command line
+
+Usage:
+  bun run search -- [options] <query>
+
+Options:
+  -d, --dir         Transcripts directory (default: $TRANSCRIPTS_DIR or ~/transcripts)
+  --days            How many days back to search (default: 90)
+  -n, --limit       Maximum sessions to return (default: 20)
+  -C, --context     Lines of context around matches (default: 2)
+  --type            user, assistant or all (default: all)
+  --sort            relevance or date (default: relevance)
+  --half-life       Halve relevance every N days of session age (default: no decay)
+  --engine          auto, index, ripgrep or builtin (default: auto)
+  -h, --help        Show this help
+
+Query syntax:
+  JWT refresh               Sessions mentioning both terms
+  JWT OR OAuth              Either term
+  NOT legacy, -legacy       Exclude sessions mentioning a term
+  "refresh token"           Exact phrase
+  (jwt OR oauth) refresh    Grouping
+  user:deploy               Term in a user prompt
+  assistant:migration       Term in an assistant response
+  tool:Bash                 Sessions that called a tool
+  project:my-repo           Project path contains
+  source:codex              claude, codex or opencode
+  model:opus                Model name contains
+  approval:never            Codex approval policy starts with
+  sandbox:danger            Codex sandbox mode starts with
+  effort:high               Codex reasoning effort starts with
+
+Examples:
+  bun run search -- JWT refresh
+  bun run search -- '"connection pool" source:codex -test'
+  bun run search -- --days 30 user:deploy tool:Bash
+  bun run search -- --half-life 30 migration
+  bun run search -- 'sandbox:danger-full-access OR approval:never deploy'
+`)
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,384 @@
+import { parseArgs } from "node:util"
+import { readdir, mkdir } from "node:fs/promises"
+import { join, basename, dirname } from "node:path"
+import { createHash } from "node:crypto"
+import { EMOJI, toolEmoji } from "./format"
+import type { TranscriptEntry, TranscriptDocument } from "./transcript"
+import { parseTranscriptText, transcriptSource } from "./transcript"
+
+// Text kept per session in the client-side search index
+const SEARCH_TEXT_LIMIT = 10_000
+
+interface SiteSession {
+  name: string
+  month: string
+  source: string
+  title: string
+  project: string
+  started: string
+  url: string
+  doc: TranscriptDocument
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      output: { type: "string", short: "o" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    printUsage()
+    process.exit(0)
+  }
+
+  if (!positionals[0] || !values.output) {
+    console.error("Site generation requires transcripts path and --output")
+    printUsage()
+    process.exit(1)
+  }
+
+  await generateSite(positionals[0], values.output)
+}
+
+async function generateSite(inputDir: string, outputDir: string): Promise<void> {
+  const files = await findTxtFiles(inputDir)
+  console.error(`Found ${files.length} transcript files`)
+
+  const sessions: SiteSession[] = []
+  for (const file of files) {
+    const content = await Bun.file(file).text()
+    sessions.push(loadSiteSession(file, content))
+  }
+  sessions.sort((a, b) => b.name.localeCompare(a.name))
+
+  const byMonth = groupBy(sessions, s => s.month)
+  const byProject = groupBy(sessions, s => s.project)
+
+  await writePage(join(outputDir, "style.css"), STYLE)
+
+  for (const session of sessions) {
+    await writePage(join(outputDir, session.url), renderSessionPage(session))
+  }
+
+  for (const [month, monthSessions] of byMonth) {
+    await writePage(join(outputDir, "months", `${month}.html`), renderListPage(month, monthSessions, "../"))
+  }
+
+  for (const [project, projectSessions] of byProject) {
+    await writePage(join(outputDir, "projects", `${projectSlug(project)}.html`), renderListPage(project, projectSessions, "../"))
+  }
+
+  await writePage(join(outputDir, "index.html"), renderIndexPage(byMonth, byProject))
+  await writePage(join(outputDir, "search.html"), renderSearchPage())
+  await writePage(join(outputDir, "search-index.js"), renderSearchIndex(sessions))
+
+  console.error(`  Done: ${sessions.length} sessions, ${byMonth.size} months, ${byProject.size} projects`)
+}
+
+async function findTxtFiles(dir: string): Promise<string[]> {
+  const results: string[] = []
+
+  async function walk(current: string): Promise<void> {
+    const entries = await readdir(current, { withFileTypes: true })
+    for (const entry of entries) {
+      const fullPath = join(current, entry.name)
+      if (entry.isDirectory()) {
+        await walk(fullPath)
+      }
+      else if (entry.name.endsWith(".txt")) {
+        results.push(fullPath)
+      }
+    }
+  }
+
+  await walk(dir)
+  return results
+}
+
+function loadSiteSession(file: string, content: string): SiteSession {
+  const doc = parseTranscriptText(content)
+  const name = basename(file, ".txt")
+  // Batch output is organized by month folder: 2025-01/2025-01-15T10-30-00-claude.txt
+  const month = basename(dirname(file)).match(/^\d{4}-\d{2}$/) ? basename(dirname(file)) : name.slice(0, 7)
+  const firstPrompt = doc.entries.find(e => e.kind === "user")?.text.split("\n")[0]
+
+  return {
+    name,
+    month,
+    source: transcriptSource(file) ?? "unknown",
+    title: doc.header.Title || truncate(firstPrompt ?? "", 80) || name,
+    project: doc.header.Project || "unknown",
+    started: doc.header.Started || "",
+    url: `sessions/${month}/${name}.html`,
+    doc,
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const k = key(item)
+    if (!groups.has(k)) groups.set(k, [])
+    groups.get(k)!.push(item)
+  }
+  return groups
+}
+
+function renderIndexPage(byMonth: Map<string, SiteSession[]>, byProject: Map<string, SiteSession[]>): string {
+  const months = [...byMonth.entries()].sort((a, b) => b[0].localeCompare(a[0]))
+  const projects = [...byProject.entries()].sort((a, b) => a[0].localeCompare(b[0]))
+
+  const monthItems = months.map(([month, s]) =>
+    `<li><a href="months/${month}.html">${month}</a> <span class="count">${s.length}</span></li>`)
+  const projectItems = projects.map(([project, s]) =>
+    `<li><a href="projects/${projectSlug(project)}.html">${escapeHtml(project)}</a> <span class="count">${s.length}</span></li>`)
+
+  return layout("Transcripts", `
+<h1>Transcripts</h1>
+<p><a href="search.html">Search all sessions</a></p>
+<h2>Months</h2>
+<ul class="groups">${monthItems.join("\n")}</ul>
+<h2>Projects</h2>
+<ul class="groups">${projectItems.join("\n")}</ul>`, "")
+}
+
+function renderListPage(title: string, sessions: SiteSession[], root: string): string {
+  const rows = sessions.map(s => `<tr>
+<td>${escapeHtml(s.name.slice(0, 16).replace("T", " "))}</td>
+<td>${escapeHtml(s.source)}</td>
+<td><a href="${root}${s.url}">${escapeHtml(s.title)}</a></td>
+<td>${escapeHtml(s.project)}</td>
+<td>${escapeHtml(s.doc.summary.Duration ?? "")}</td>
+</tr>`)
+
+  return layout(title, `
+<h1>${escapeHtml(title)}</h1>
+<table class="sessions">
+<thead><tr><th>Date</th><th>Source</th><th>Session</th><th>Project</th><th>Duration</th></tr></thead>
+<tbody>${rows.join("\n")}</tbody>
+</table>`, root)
+}
+
+function renderSessionPage(session: SiteSession): string {
+  const root = "../../"
+  const { doc } = session
+
+  const header = Object.entries(doc.header)
+    .map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`)
+  const summary = Object.entries(doc.summary)
+    .map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`)
+
+  const body: string[] = []
+  let tools: TranscriptEntry[] = []
+
+  const flushTools = (): void => {
+    if (tools.length === 0) return
+    body.push(renderToolGroup(tools))
+    tools = []
+  }
+
+  for (const entry of doc.entries) {
+    if (entry.kind === "tool") {
+      tools.push(entry)
+      continue
+    }
+    flushTools()
+    body.push(renderEntry(entry))
+  }
+  flushTools()
+
+  return layout(session.title, `
+<nav><a href="${root}index.html">Index</a> / <a href="${root}months/${session.month}.html">${session.month}</a> / <a href="${root}projects/${projectSlug(session.project)}.html">${escapeHtml(session.project)}</a></nav>
+<h1>${escapeHtml(session.title)}</h1>
+<table class="meta">${header.join("\n")}</table>
+<div class="transcript">
+${body.join("\n")}
+</div>
+<h2>Summary</h2>
+<table class="meta">${summary.join("\n")}</table>`, root)
+}
+
+function renderEntry(entry: TranscriptEntry): string {
+  switch (entry.kind) {
+    case "user":
+      return `<div class="user"><span class="who">${EMOJI.user}</span><div class="text">${escapeHtml(entry.text)}</div></div>`
+    case "assistant":
+      return `<div class="assistant"><span class="who">${EMOJI.assistant}</span><div class="text">${escapeHtml(entry.text)}</div></div>`
+    case "thinking":
+      return `<details class="thinking"><summary>${EMOJI.thinking} Thinking</summary><div class="text">${escapeHtml(entry.text)}</div></details>`
+    case "notice":
+      return `<div class="notice">${EMOJI.queue} ${escapeHtml(entry.text)}</div>`
+    default:
+      return `<div class="metadata">${EMOJI.metadata} ${escapeHtml(entry.text)}</div>`
+  }
+}
+
+function renderToolGroup(tools: TranscriptEntry[]): string {
+  const failed = tools.filter(t => !t.success).length
+  const label = `${tools.length} tool call${tools.length === 1 ? "" : "s"}${failed > 0 ? `, ${failed} failed` : ""}`
+  const items = tools.map(t => {
+    const emoji = toolEmoji(t.success ?? false, t.failure)
+    return `<li class="${t.success ? "ok" : "fail"}">${emoji} <code>${escapeHtml(t.tool ?? "")}</code> <span>${escapeHtml(t.text)}</span></li>`
+  })
+  return `<details class="tools${failed > 0 ? " has-failures" : ""}"><summary>${EMOJI.toolPending} ${label}</summary><ul>${items.join("")}</ul></details>`
+}
+
+function renderSearchPage(): string {
+  return layout("Search", `
+<nav><a href="index.html">Index</a></nav>
+<h1>Search</h1>
+<input id="q" type="search" placeholder="Search prompts and responses..." autofocus>
+<p id="status"></p>
+<ul id="results" class="results"></ul>
+<script src="search-index.js"></script>
+<script>
+${SEARCH_SCRIPT}
+</script>`, "")
+}
+
+function renderSearchIndex(sessions: SiteSession[]): string {
+  const index = sessions.map(s => ({
+    url: s.url,
+    title: s.title,
+    date: s.name.slice(0, 10),
+    project: s.project,
+    source: s.source,
+    text: s.doc.entries
+      .filter(e => e.kind === "user" || e.kind === "assistant")
+      .map(e => e.text)
+      .join("\n")
+      .slice(0, SEARCH_TEXT_LIMIT),
+  }))
+  // Loaded via <script> so search works from file:// without a server
+  return `window.SEARCH_INDEX = ${JSON.stringify(index)};\n`
+}
+
+function layout(title: string, body: string, root: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+${body.trim()}
+</body>
+</html>
+`
+}
+
+async function writePage(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await Bun.write(path, content)
+}
+
+// Readable, plus a hash of the full path: "/a/b-c" and "/a/b/c" would
+// otherwise both be "a-b-c"
+function projectSlug(project: string): string {
+  const readable = project.replace(/^\/+/, "").replace(/[^A-Za-z0-9._-]+/g, "-") || "unknown"
+  return `${readable}-${createHash("sha1").update(project).digest("hex").slice(0, 8)}`
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + "..." : text
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+const SEARCH_SCRIPT = `
+const input = document.getElementById("q")
+const status = document.getElementById("status")
+const results = document.getElementById("results")
+const index = (window.SEARCH_INDEX || []).map(s => ({ ...s, haystack: (s.title + "\\n" + s.project + "\\n" + s.text).toLowerCase() }))
+
+function escape(text) {
+  return text.replace(/[&<>"]/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c])
+}
+
+function snippet(text, term) {
+  const at = text.toLowerCase().indexOf(term)
+  if (at < 0) return ""
+  const start = Math.max(0, at - 60)
+  return (start > 0 ? "..." : "") + text.slice(start, at + term.length + 100).replace(/\\s+/g, " ") + "..."
+}
+
+function search() {
+  const terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean)
+  if (terms.length === 0) {
+    status.textContent = index.length + " sessions indexed"
+    results.innerHTML = ""
+    return
+  }
+  const matches = index.filter(s => terms.every(t => s.haystack.includes(t)))
+  status.textContent = matches.length + " matching sessions"
+  results.innerHTML = matches.slice(0, 100).map(s =>
+    '<li><a href="' + s.url + '">' + escape(s.title) + '</a> <span class="count">' + s.date + " " + s.source + " " + escape(s.project) + "</span>" +
+    "<p>" + escape(snippet(s.text, terms[0])) + "</p></li>").join("")
+}
+
+input.addEventListener("input", search)
+search()
+`
+
+const STYLE = `body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.5; }
+a { color: #0b57d0; text-decoration: none; }
+a:hover { text-decoration: underline; }
+nav { font-size: 0.9rem; margin-bottom: 1rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #eee; vertical-align: top; }
+table.meta th { width: 8rem; color: #666; font-weight: normal; }
+.count { color: #888; font-size: 0.85rem; }
+ul.groups { columns: 2; }
+.user, .assistant { display: flex; gap: 0.6rem; margin: 0.8rem 0; }
+.user .text { background: #eef4ff; border-radius: 6px; padding: 0.4rem 0.7rem; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+.metadata, .notice { color: #666; font-size: 0.85rem; margin: 0.4rem 0; }
+details.thinking { margin: 0.4rem 0 0.4rem 2rem; font-size: 0.85rem; color: #666; }
+details.tools { margin: 0.4rem 0 0.4rem 2rem; font-size: 0.85rem; color: #444; }
+details.tools.has-failures summary { color: #b3261e; }
+details.tools ul { list-style: none; padding-left: 1rem; }
+details.tools li { overflow-wrap: anywhere; }
+details.tools li.fail { color: #b3261e; }
+#q { width: 100%; font-size: 1.1rem; padding: 0.5rem; }
+ul.results { list-style: none; padding: 0; }
+ul.results p { margin: 0.2rem 0 1rem; color: #555; font-size: 0.9rem; }
+`
+
+function printUsage(): void {
+  console.log(`
+Render a transcripts archive into a static HTML site
+
+Usage:
+  bun run site -- <transcripts> -o <output>
+
+Options:
+  -o, --output      Output directory for the site (required)
+  -h, --help        Show this help
+
+Pages:
+  index.html                      Month and project index
+  months/YYYY-MM.html             Sessions per month
+  projects/<project>.html         Sessions per project
+  sessions/YYYY-MM/<name>.html    Full session with collapsible tool calls
+  search.html                     Client-side search (works from file://)
+
+Example:
+  bun run site -- ~/transcripts --output ~/transcripts-site
+`)
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -1,5 +1,12 @@
 import { readdir, stat } from "node:fs/promises"
 import { join, dirname } from "node:path"
+import { parseArgs } from "node:util"
+import type { SettingName } from "./events"
+import { SETTING_NAMES } from "./events"
+import { parseTokenValue, parseDuration, parseSettings } from "./transcript"
+
+// Setting values a session must have used in some turn, matched as prefixes
+type SettingsFilter = Partial<Record<SettingName, string>>
 
 interface ProjectStats {
   sessions: number
@@ -17,6 +24,7 @@ interface ProjectStats {
   outputTokens: number
   cacheRead: number
   cacheCreated: number
+  cost: number
   totalDurationMinutes: number
 }
 
@@ -37,6 +45,7 @@ function emptyStats(): ProjectStats {
     outputTokens: 0,
     cacheRead: 0,
     cacheCreated: 0,
+    cost: 0,
     totalDurationMinutes: 0,
   }
 }
@@ -45,28 +54,6 @@ function countWords(text: string): number {
   return text.split(/\s+/).filter(Boolean).length
 }
 
-function parseTokenValue(str: string): number {
-  const match = str.match(/([\d.]+)([KM]?)/)
-  if (!match) return 0
-  const num = parseFloat(match[1])
-  const suffix = match[2]
-  if (suffix === "M") return num * 1_000_000
-  if (suffix === "K") return num * 1_000
-  return num
-}
-
-function parseDuration(str: string): number {
-  // "1h 4m" or "12m" or "45s"
-  let minutes = 0
-  const hourMatch = str.match(/(\d+)h/)
-  const minMatch = str.match(/(\d+)m/)
-  const secMatch = str.match(/(\d+)s/)
-  if (hourMatch) minutes += parseInt(hourMatch[1]) * 60
-  if (minMatch) minutes += parseInt(minMatch[1])
-  if (secMatch) minutes += parseInt(secMatch[1]) / 60
-  return minutes
-}
-
 function parseFile(content: string, stats: ProjectStats): void {
   stats.sessions++
   const lines = content.split("\n")
@@ -119,9 +106,26 @@ function parseFile(content: string, stats: ProjectStats): void {
         stats.cacheCreated += parseTokenValue(match[2])
       }
     }
+    else if (line.startsWith("📋 Cost:")) {
+      // "📋 Cost: ~$1.2345 (opus-4.5 $1.1000, haiku-4.5 $0.1345)", "~" when estimated
+      const match = line.match(/Cost:\s*~?\$([\d.]+)/)
+      if (match) {
+        stats.cost += parseFloat(match[1])
+      }
+    }
   }
 }
 
+function matchesSettings(content: string, filter: SettingsFilter): boolean {
+  const used = content.split("\n")
+    .filter(line => line.startsWith("📋 Settings: "))
+    .flatMap(line => parseSettings(line.slice("📋 Settings: ".length)))
+  return SETTING_NAMES.every(name => {
+    const value = filter[name]
+    return !value || used.some(pair => pair.startsWith(`${name}=${value}`))
+  })
+}
+
 async function findTxtFiles(dir: string): Promise<string[]> {
   const results: string[] = []
 
@@ -162,6 +166,10 @@ function formatNumber(n: number): string {
   return String(Math.round(n))
 }
 
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`
+}
+
 function formatDuration(minutes: number): string {
   if (minutes >= 60) {
     const hours = Math.floor(minutes / 60)
@@ -172,11 +180,22 @@ function formatDuration(minutes: number): string {
 }
 
 async function main(): Promise<void> {
-  const inputDir = process.argv[2]
+  const { values, positionals } = parseArgs({
+    options: {
+      approval: { type: "string" },
+      sandbox: { type: "string" },
+      effort: { type: "string" },
+    },
+    allowPositionals: true,
+  })
+
+  const inputDir = positionals[0]
   if (!inputDir) {
-    console.error("Usage: bun run summarize <transcripts-dir>")
+    console.error("Usage: bun run summarize <transcripts-dir> [--approval <policy>] [--sandbox <mode>] [--effort <level>]")
     process.exit(1)
   }
+  const filter: SettingsFilter = { approval: values.approval, sandbox: values.sandbox, effort: values.effort }
+  const filtered = SETTING_NAMES.some(name => filter[name])
 
   const files = await findTxtFiles(inputDir)
   console.error(`Found ${files.length} transcript files`)
@@ -184,11 +203,12 @@ async function main(): Promise<void> {
   const projects = new Map<string, ProjectStats>()
 
   for (const file of files) {
+    const content = await Bun.file(file).text()
+    if (filtered && !matchesSettings(content, filter)) continue
     const projectKey = getProjectKey(file, inputDir)
     if (!projects.has(projectKey)) {
       projects.set(projectKey, emptyStats())
     }
-    const content = await Bun.file(file).text()
     parseFile(content, projects.get(projectKey)!)
   }
 
@@ -196,8 +216,8 @@ async function main(): Promise<void> {
   const sorted = [...projects.entries()].sort((a, b) => a[0].localeCompare(b[0]))
 
   // Header
-  console.log("| Month | Sessions | User (words) | AI (words) | Bash (✓/✗) | R/W/E | Tokens (in/out) | Time |")
-  console.log("|---|---|---|---|---|---|---|---|")
+  console.log("| Month | Sessions | User (words) | AI (words) | Bash (✓/✗) | R/W/E | Tokens (in/out) | Cost | Time |")
+  console.log("|---|---|---|---|---|---|---|---|---|")
 
   // Totals
   const totals = emptyStats()
@@ -210,9 +230,10 @@ async function main(): Promise<void> {
     const bash = `${stats.bashTotal} (${stats.bashSuccess}/${stats.bashFailed})`.padStart(14)
     const rwe = `${stats.reads}/${stats.writes}/${stats.edits}`.padStart(12)
     const tokens = `${formatNumber(stats.inputTokens)}/${formatNumber(stats.outputTokens)}`.padStart(17)
+    const cost = formatCost(stats.cost).padStart(10)
     const time = formatDuration(stats.totalDurationMinutes).padStart(8)
 
-    console.log(`| ${projectName.trim()} | ${sessions.trim()} | ${user.trim()} | ${ai.trim()} | ${bash.trim()} | ${rwe.trim()} | ${tokens.trim()} | ${time.trim()} |`)
+    console.log(`| ${projectName.trim()} | ${sessions.trim()} | ${user.trim()} | ${ai.trim()} | ${bash.trim()} | ${rwe.trim()} | ${tokens.trim()} | ${cost.trim()} | ${time.trim()} |`)
 
     // Accumulate totals
     totals.sessions += stats.sessions
@@ -228,11 +249,12 @@ async function main(): Promise<void> {
     totals.edits += stats.edits
     totals.inputTokens += stats.inputTokens
     totals.outputTokens += stats.outputTokens
+    totals.cost += stats.cost
     totals.totalDurationMinutes += stats.totalDurationMinutes
   }
 
   // Print totals
-  console.log("|---|---|---|---|---|---|---|---|")
+  console.log("|---|---|---|---|---|---|---|---|---|")
   const tProjectName = "**TOTAL**"
   const tSessions = String(totals.sessions)
   const tUser = `${totals.userMessages} (${formatNumber(totals.userWords)})`
@@ -240,9 +262,10 @@ async function main(): Promise<void> {
   const tBash = `${totals.bashTotal} (${totals.bashSuccess}/${totals.bashFailed})`
   const tRwe = `${totals.reads}/${totals.writes}/${totals.edits}`
   const tTokens = `${formatNumber(totals.inputTokens)}/${formatNumber(totals.outputTokens)}`
+  const tCost = formatCost(totals.cost)
   const tTime = formatDuration(totals.totalDurationMinutes)
 
-  console.log(`| ${tProjectName} | ${tSessions} | ${tUser} | ${tAi} | ${tBash} | ${tRwe} | ${tTokens} | ${tTime} |`)
+  console.log(`| ${tProjectName} | ${tSessions} | ${tUser} | ${tAi} | ${tBash} | ${tRwe} | ${tTokens} | ${tCost} | ${tTime} |`)
 }
 
 main().catch((err) => {
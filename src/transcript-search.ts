@@ -0,0 +1,316 @@
+import { readdir } from "node:fs/promises"
+import { join, basename } from "node:path"
+import { spawn } from "node:child_process"
+import type { MatchLine } from "./search-index"
+import { TranscriptIndex } from "./search-index"
+import type { QueryNode } from "./query"
+import { parseQuery, keywordsQuery, positiveTerms } from "./query"
+
+export const TRANSCRIPTS_DIR = process.env.TRANSCRIPTS_DIR || join(process.env.HOME || "", "transcripts")
+
+// Limits for the line-scanning engines (ripgrep and built-in)
+const MAX_SCANNED_FILES = 100
+const MAX_MATCHES_PER_FILE = 3
+
+export interface SearchOptions {
+  // Query syntax from ./query; takes precedence over keywords
+  query?: string
+  // OR-matched keywords
+  keywords?: string[]
+  days?: number
+  limit?: number
+  context_lines?: number
+  message_type?: "user" | "assistant" | "all"
+  sort?: "relevance" | "date"
+  // Days after which a session's relevance score halves
+  recency_half_life?: number
+  // "auto" (default) tries the index, then ripgrep, then the built-in scanner
+  engine?: SearchEngine
+  dir?: string
+}
+
+export const SEARCH_ENGINES = ["auto", "index", "ripgrep", "builtin"] as const
+
+export type SearchEngine = typeof SEARCH_ENGINES[number]
+
+export interface SearchResponse {
+  results: SearchResult[]
+  // Engine that produced the results
+  engine: Exclude<SearchEngine, "auto">
+  // Why a fallback engine was used, for the caller to pass on
+  notice?: string
+}
+
+export interface SearchResult {
+  file: string
+  date: string
+  hits: number
+  matches: MatchLine[]
+}
+
+// Throws QueryError for malformed query strings
+export async function searchTranscripts(options: SearchOptions): Promise<SearchResponse> {
+  const { days = 90, limit = 20, context_lines = 2, message_type = "all", sort = "relevance", engine = "auto", dir = TRANSCRIPTS_DIR } = options
+
+  const query = options.query?.trim() ? parseQuery(options.query) : keywordsQuery(options.keywords ?? [])
+  if (!query) {
+    return { results: [], engine: engine === "auto" ? "index" : engine }
+  }
+
+  // Calculate date cutoff
+  const cutoffDate = new Date()
+  cutoffDate.setDate(cutoffDate.getDate() - days)
+  const cutoffStr = cutoffDate.toISOString().slice(0, 10)
+
+  const notices: string[] = []
+
+  if (engine === "auto" || engine === "index") {
+    try {
+      const index = await openIndex(dir)
+      const results = index.search({
+        query,
+        since: cutoffStr,
+        kind: message_type === "all" ? undefined : message_type,
+        limit,
+        contextLines: context_lines,
+        sort,
+        recencyHalfLife: options.recency_half_life,
+      })
+      return { results, engine: "index" }
+    }
+    catch (err) {
+      if (engine === "index") throw err
+      console.error("Transcript index unavailable, falling back to ripgrep:", err)
+      notices.push("Transcript index unavailable")
+    }
+  }
+
+  // Line scanners can't evaluate the boolean structure, so match any positive term
+  const pattern = grepPattern(query, message_type)
+  if (pattern && !isAnyOfTerms(query)) {
+    notices.push("query matched as any of its terms (AND, NOT and tool:, project:, source:, model:, approval:, sandbox:, effort: ignored)")
+  }
+
+  // Find matching files (date-filtered)
+  const files = pattern ? await findRecentFiles(dir, cutoffStr) : []
+
+  let results: SearchResult[] | null = null
+  let used: SearchResponse["engine"] = "builtin"
+  if (engine !== "builtin" && files.length > 0) {
+    results = await runGrep(pattern!, files, context_lines)
+    used = "ripgrep"
+    if (!results) {
+      if (engine === "ripgrep") throw new Error("ripgrep (rg) is not installed")
+      notices.push("ripgrep not found")
+    }
+  }
+  if (!results) {
+    results = files.length > 0 ? await scanFiles(pattern!, files, context_lines) : []
+    used = "builtin"
+  }
+
+  results.sort((a, b) => (sort === "relevance" ? b.hits - a.hits : 0) || b.date.localeCompare(a.date) || b.file.localeCompare(a.file))
+
+  return {
+    results: results.slice(0, limit),
+    engine: used,
+    notice: notices.length > 0 ? `${notices.join("; ")}; searched with ${used === "ripgrep" ? "ripgrep" : "the built-in scanner"}.` : undefined,
+  }
+}
+
+let transcriptIndex: { dir: string; index: TranscriptIndex } | null = null
+
+export async function openIndex(dir: string = TRANSCRIPTS_DIR): Promise<TranscriptIndex> {
+  if (transcriptIndex?.dir !== dir) {
+    transcriptIndex?.index.close()
+    transcriptIndex = { dir, index: TranscriptIndex.open(dir) }
+  }
+  // Cheap when nothing changed: only files with a new mtime are re-read
+  await transcriptIndex.index.sync(dir)
+  return transcriptIndex.index
+}
+
+export function formatResults({ results, notice }: SearchResponse): string {
+  const header = notice ? `Note: ${notice}\n` : ""
+  if (results.length === 0) {
+    return `${header}No matches found.`
+  }
+
+  let output = header
+  for (const result of results) {
+    output += `\n${result.date} ${result.file} (${result.hits} ${result.hits === 1 ? "hit" : "hits"})\n`
+    for (const match of result.matches) {
+      output += `  ${match.line}: ${match.text}\n`
+    }
+  }
+  return output.trim()
+}
+
+function grepPattern(query: QueryNode, messageType: SearchOptions["message_type"]): string | null {
+  const terms = positiveTerms(query)
+  if (terms.length === 0) {
+    return null
+  }
+
+  return terms
+    .map(term => {
+      const pattern = escapeRegex(term.text)
+      // Prefix filter by message type
+      const kind = term.kind ?? (messageType === "all" ? undefined : messageType)
+      if (kind === "user") return `^👤.*(?:${pattern})`
+      if (kind === "assistant") return `^🤖.*(?:${pattern})`
+      return pattern
+    })
+    .join("|")
+}
+
+async function findRecentFiles(dir: string, cutoffDate: string): Promise<string[]> {
+  const results: string[] = []
+
+  async function walk(current: string): Promise<void> {
+    let entries
+    try {
+      entries = await readdir(current, { withFileTypes: true })
+    }
+    catch {
+      return
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(current, entry.name)
+
+      if (entry.isDirectory()) {
+        // Directory names are like "2025-01", skip old ones
+        if (entry.name.match(/^\d{4}-\d{2}$/) && entry.name < cutoffDate.slice(0, 7)) {
+          continue
+        }
+        await walk(fullPath)
+      }
+      else if (entry.name.endsWith(".txt")) {
+        // File names start with date like "2025-01-15T..."
+        const fileDate = entry.name.slice(0, 10)
+        if (fileDate >= cutoffDate) {
+          results.push(fullPath)
+        }
+      }
+    }
+  }
+
+  try {
+    await walk(dir)
+  }
+  catch {
+    // Directory doesn't exist
+  }
+
+  return results.sort().reverse() // Most recent first
+}
+
+// Resolves null when rg can't be started
+function runGrep(pattern: string, files: string[], contextLines: number): Promise<SearchResult[] | null> {
+  return new Promise((resolve) => {
+    const args = [
+      "-i",                          // Case insensitive
+      "-n",                          // Line numbers
+      `-C${contextLines}`,           // Context lines
+      "-e", pattern,                 // Pattern
+      "--max-count", `${MAX_MATCHES_PER_FILE}`, // Max matches per file
+      ...files.slice(0, MAX_SCANNED_FILES)      // Limit files to search
+    ]
+
+    const rg = spawn("rg", args, { stdio: ["ignore", "pipe", "pipe"] })
+
+    let stdout = ""
+    rg.stdout.on("data", (data) => { stdout += data.toString() })
+    rg.stderr.on("data", () => { /* ignore */ })
+
+    let failed = false
+    rg.on("close", () => {
+      if (failed) return
+      const results = parseGrepOutput(stdout)
+      resolve(results)
+    })
+
+    rg.on("error", () => {
+      failed = true
+      resolve(null)
+    })
+  })
+}
+
+function parseGrepOutput(output: string): SearchResult[] {
+  const byFile = new Map<string, MatchLine[]>()
+  const hits = new Map<string, number>()
+
+  // Group output by file
+  const lines = output.split("\n")
+
+  for (const line of lines) {
+    if (line === "--") {
+      continue // Separator between matches
+    }
+
+    // ripgrep output: /path/to/file:linenum:content
+    // (context lines use "-" instead of ":")
+    const match = line.match(/^(.+\.txt)([:\-])(\d+)[:\-](.*)$/)
+    if (match) {
+      const [, file, separator, line, content] = match
+
+      if (!byFile.has(file)) {
+        byFile.set(file, [])
+      }
+      byFile.get(file)!.push({ line: parseInt(line), text: content })
+      if (separator === ":") {
+        hits.set(file, (hits.get(file) ?? 0) + 1)
+      }
+    }
+  }
+
+  // Convert to results
+  const results: SearchResult[] = []
+  for (const [file, matches] of byFile) {
+    const filename = basename(file)
+    const date = filename.slice(0, 10)
+    results.push({ file, date, hits: hits.get(file) ?? 0, matches })
+  }
+
+  return results
+}
+
+// Pure TypeScript equivalent of runGrep, for machines without ripgrep:
+// same pattern, case folding, per-file match cap and merged context
+async function scanFiles(pattern: string, files: string[], contextLines: number): Promise<SearchResult[]> {
+  const regex = new RegExp(pattern, "i")
+  const results: SearchResult[] = []
+
+  for (const file of files.slice(0, MAX_SCANNED_FILES)) {
+    const lines = (await Bun.file(file).text()).replace(/\n$/, "").split("\n")
+
+    const hits: number[] = []
+    for (let i = 0; i < lines.length && hits.length < MAX_MATCHES_PER_FILE; i++) {
+      if (regex.test(lines[i])) hits.push(i)
+    }
+    if (hits.length === 0) continue
+
+    const shown = new Set<number>()
+    for (const hit of hits) {
+      const end = Math.min(lines.length - 1, hit + contextLines)
+      for (let i = Math.max(0, hit - contextLines); i <= end; i++) shown.add(i)
+    }
+
+    const matches = [...shown].sort((a, b) => a - b).map(i => ({ line: i + 1, text: lines[i] }))
+    results.push({ file, date: basename(file).slice(0, 10), hits: hits.length, matches })
+  }
+
+  return results
+}
+
+// True when matching any positive term is exactly what the query means
+function isAnyOfTerms(node: QueryNode): boolean {
+  if (node.type === "term") return true
+  return node.type === "or" && node.children.every(isAnyOfTerms)
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
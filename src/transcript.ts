@@ -0,0 +1,240 @@
+import { basename } from "node:path"
+import { EMOJI, toolEmoji } from "./format"
+import type { TranscriptSource, FileTouch, ToolFailure, SettingName } from "./events"
+import { SETTING_NAMES } from "./events"
+
+export interface TranscriptEntry {
+  kind: "user" | "assistant" | "thinking" | "tool" | "metadata" | "notice"
+  text: string
+  // 1-based line number of the entry's first line
+  line: number
+  // Tool calls only
+  tool?: string
+  success?: boolean
+  // Failed tool calls with a reason (⏰, 🚫, ⛔)
+  failure?: ToolFailure
+}
+
+export interface EntryFile {
+  path: string
+  operation: FileTouch["operation"] | "shell"
+}
+
+export interface TranscriptDocument {
+  header: Record<string, string>
+  entries: TranscriptEntry[]
+  summary: Record<string, string>
+}
+
+const SUMMARY_MARKER = `${EMOJI.metadata} --- Summary ---`
+
+const PREFIXES: [string, TranscriptEntry["kind"]][] = [
+  [`${EMOJI.user} `, "user"],
+  [`${EMOJI.assistant} `, "assistant"],
+  [`${EMOJI.thinking} `, "thinking"],
+  [`${EMOJI.toolSuccess} `, "tool"],
+  [`${EMOJI.toolFailure} `, "tool"],
+  [`${EMOJI.toolTimeout} `, "tool"],
+  [`${EMOJI.toolDenied} `, "tool"],
+  [`${EMOJI.toolAborted} `, "tool"],
+  [`${EMOJI.queue} `, "notice"],
+  [`${EMOJI.metadata} `, "metadata"],
+]
+
+const FAILURE_PREFIXES: [string, ToolFailure][] = [
+  [EMOJI.toolTimeout, "timeout"],
+  [EMOJI.toolDenied, "denied"],
+  [EMOJI.toolAborted, "aborted"],
+]
+
+// Parse a rendered text transcript back into header fields, body entries
+// and summary fields. Lines without a known prefix continue the previous
+// entry (multi-line user, assistant and thinking messages).
+export function parseTranscriptText(content: string): TranscriptDocument {
+  const doc: TranscriptDocument = { header: {}, entries: [], summary: {} }
+  const lines = content.split("\n")
+
+  let section: "header" | "body" | "summary" = "header"
+  let current: TranscriptEntry | null = null
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    if (line === SUMMARY_MARKER) {
+      section = "summary"
+      current = null
+      continue
+    }
+
+    if (section === "header") {
+      const field = parseField(line)
+      if (field) {
+        doc.header[field[0]] = field[1]
+        continue
+      }
+      section = "body"
+      if (!line) continue
+    }
+
+    if (section === "summary") {
+      const field = parseField(line)
+      if (field) doc.summary[field[0]] = field[1]
+      continue
+    }
+
+    // Subagent conversations are indented under their Task call
+    const body = line.replace(/^ +/, "")
+    const prefix = PREFIXES.find(([p]) => body.startsWith(p))
+    if (!prefix) {
+      // Continuation of a multi-line message
+      if (current && (current.kind === "user" || current.kind === "assistant" || current.kind === "thinking")) {
+        current.text += "\n" + line
+      }
+      continue
+    }
+
+    const [p, kind] = prefix
+    const text = body.slice(p.length)
+    current = { kind, text, line: i + 1 }
+
+    if (kind === "tool") {
+      const sep = text.indexOf(": ")
+      current.tool = sep >= 0 ? text.slice(0, sep) : text
+      current.text = sep >= 0 ? text.slice(sep + 2) : ""
+      current.success = p.startsWith(EMOJI.toolSuccess)
+      const failure = FAILURE_PREFIXES.find(([emoji]) => p.startsWith(emoji))
+      if (failure) current.failure = failure[1]
+    }
+
+    doc.entries.push(current)
+  }
+
+  // Trailing blank line before the summary belongs to no message
+  for (const entry of doc.entries) {
+    entry.text = entry.text.replace(/\n+$/, "")
+  }
+
+  return doc
+}
+
+// Render an entry back to its transcript line (first line only for
+// multi-line messages)
+export function formatEntry(entry: TranscriptEntry): string {
+  const text = entry.text.split("\n")[0]
+  switch (entry.kind) {
+    case "user":
+      return `${EMOJI.user} ${text}`
+    case "assistant":
+      return `${EMOJI.assistant} ${text}`
+    case "thinking":
+      return `${EMOJI.thinking} ${text}`
+    case "tool":
+      return `${toolEmoji(entry.success ?? false, entry.failure)} ${entry.tool}: ${text}`
+    case "notice":
+      return `${EMOJI.queue} ${text}`
+    case "metadata":
+      return `${EMOJI.metadata} ${text}`
+  }
+}
+
+const FILE_TOOLS: Record<string, FileTouch["operation"]> = {
+  Read: "read",
+  Write: "write",
+  Edit: "edit",
+  MultiEdit: "edit",
+  NotebookEdit: "edit",
+  read_file: "read",
+  write_file: "write",
+  read: "read",
+  write: "write",
+  edit: "edit",
+}
+
+const SHELL_TOOLS = new Set(["Bash", "shell", "bash"])
+
+// Recover the file paths a rendered tool call line refers to
+export function entryFiles(entry: TranscriptEntry): EntryFile[] {
+  if (entry.kind !== "tool" || !entry.tool) return []
+
+  const operation = FILE_TOOLS[entry.tool]
+  if (operation) {
+    // file="..." (Claude, Codex) or a JSON input with a path key
+    const match = entry.text.match(/file="([^"]+)"/) ??
+      entry.text.match(/"(?:file_path|filePath|notebook_path|path)":"([^"]+)"/)
+    if (match) return [{ path: match[1], operation }]
+    // OpenCode renders the tool title, which is the bare path for file tools
+    const text = entry.text.trim()
+    if (text && !/\s/.test(text)) return [{ path: text, operation }]
+    return []
+  }
+
+  if (entry.tool === "apply_patch") {
+    // "A src/new.ts (+10), M src/app.ts (+3 -1), D src/old.ts"
+    const operations: Record<string, FileTouch["operation"]> = { A: "write", M: "edit", D: "delete" }
+    return entry.text.split(", ").flatMap(item => {
+      const match = item.match(/^([AMD]) (.+?)(?: \([+-]\d+(?: -\d+)?\))?$/)
+      return match ? [{ path: match[2], operation: operations[match[1]] }] : []
+    })
+  }
+
+  if (SHELL_TOOLS.has(entry.tool)) {
+    const paths = entry.text
+      .split(/[\s;|&<>()]+/)
+      .map(token => token.replace(/^["'`]+|["'`,:]+$/g, ""))
+      .filter(token => !token.startsWith("-") && !token.includes("://") && looksLikePath(token))
+    return [...new Set(paths)].map(path => ({ path, operation: "shell" }))
+  }
+
+  return []
+}
+
+function looksLikePath(token: string): boolean {
+  // Something with a directory separator or a file extension
+  return /^[\w.~/@+-]+$/.test(token) && (/\/[\w@.-]/.test(token) || /^[\w@+-][\w.@+-]*\.[A-Za-z]\w{0,9}$/.test(token))
+}
+
+export function transcriptSource(filePath: string): TranscriptSource | null {
+  const match = basename(filePath).match(/-(claude|codex|opencode)\.txt$/)
+  return match ? match[1] as TranscriptSource : null
+}
+
+// Parse rounded token counts from summary lines: "1.2K" -> 1200
+export function parseTokenValue(str: string): number {
+  const match = str.match(/([\d.]+)([KM]?)/)
+  if (!match) return 0
+  const num = parseFloat(match[1])
+  const suffix = match[2]
+  if (suffix === "M") return num * 1_000_000
+  if (suffix === "K") return num * 1_000
+  return num
+}
+
+// Parse summary durations to minutes: "1h 4m" or "12m" or "45s"
+export function parseDuration(str: string): number {
+  let minutes = 0
+  const hourMatch = str.match(/(\d+)h/)
+  const minMatch = str.match(/(\d+)m/)
+  const secMatch = str.match(/(\d+)s/)
+  if (hourMatch) minutes += parseInt(hourMatch[1]) * 60
+  if (minMatch) minutes += parseInt(minMatch[1])
+  if (secMatch) minutes += parseInt(secMatch[1]) / 60
+  return minutes
+}
+
+// Parse a Settings line to "name=value" pairs:
+// "approval never, sandbox workspace-write (3 of 4 turns)" -> ["approval=never", "sandbox=workspace-write"]
+export function parseSettings(str: string): string[] {
+  const pairs: string[] = []
+  for (const part of str.split(", ")) {
+    const match = part.match(/^(\w+) (\S+)/)
+    if (match && SETTING_NAMES.includes(match[1] as SettingName)) {
+      pairs.push(`${match[1]}=${match[2]}`)
+    }
+  }
+  return pairs
+}
+
+function parseField(line: string): [string, string] | null {
+  const match = line.match(/^📋 ([^:]+): (.*)$/)
+  return match ? [match[1], match[2]] : null
+}
@@ -1,16 +1,46 @@
+import type { EventOptions } from "./events"
+
 export interface SessionRecord {
-  type: "user" | "assistant" | "queue-operation"
+  type: "user" | "assistant" | "queue-operation" | "system" | "summary" | "file-history-snapshot"
   sessionId: string
   uuid: string
   parentUuid: string | null
+  // Set on compact boundaries, whose parentUuid is null
+  logicalParentUuid?: string
   timestamp: string
   cwd: string
   version: string
   gitBranch?: string
   isSidechain?: boolean
   isMeta?: boolean
+  // The user record carrying the summary written at a compact boundary
+  isCompactSummary?: boolean
+  // Subagent transcripts (agent-<agentId>.jsonl)
+  agentId?: string
   message: UserMessage | AssistantMessage
   requestId?: string
+  // Structured tool result; Task results carry the subagent's agentId
+  toolUseResult?: { agentId?: string } | string
+}
+
+// Session title, generated by Claude Code. No uuid, timestamp or session
+// fields; leafUuid names the message the title describes.
+export interface SummaryRecord {
+  type: "summary"
+  summary: string
+  leafUuid?: string
+}
+
+export interface SystemRecord {
+  type: "system"
+  subtype?: string
+  content?: string
+  level?: "info" | "warning" | "error" | "suggestion"
+  // compact_boundary records
+  compactMetadata?: {
+    trigger?: "auto" | "manual"
+    preTokens?: number
+  }
 }
 
 export interface UserMessage {
@@ -70,25 +100,16 @@ export interface PendingTool {
   input: Record<string, unknown>
 }
 
-export interface SessionMetadata {
-  sessionId: string
-  project: string
-  started: string
-  version: string
-  gitBranch?: string
-}
-
-export interface SessionStats {
-  userMessages: number
-  assistantMessages: number
-  toolCalls: number
-  toolErrors: number
-  inputTokens: number
-  outputTokens: number
-  cacheCreationTokens: number
-  cacheReadTokens: number
-  filesRead: Set<string>
-  filesWritten: Set<string>
-  filesEdited: Set<string>
-  lastTimestamp: string | null
+export interface ParserOptions extends EventOptions {
+  // Subagent transcripts by agentId, as raw JSONL
+  subagents?: Map<string, string>
+  // Include the summary Claude writes when it compacts the context
+  compactSummaries?: boolean
+  // Parsing a subagent transcript: sidechain records are its main line
+  sidechain?: boolean
+  // Render abandoned branches (rewinds, edited prompts) instead of dropping them
+  branches?: boolean
+  // Emit events as records arrive rather than from finalize(), for live
+  // sessions. Without the whole tree, abandoned branches stay inline.
+  follow?: boolean
 }